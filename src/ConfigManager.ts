@@ -1,6 +1,37 @@
 import fs from "fs";
 import path from "path";
-import { SecretsConfig, ServiceConfig, DeletePolicy } from "./types";
+import {
+  SecretsConfig,
+  ServiceConfig,
+  DeletePolicy,
+  Environment,
+  EnvironmentConfig,
+  BackendConfig,
+  EncryptionConfig,
+  SecretSettings,
+  PromotionRules,
+  SharedLayerConfig,
+  TargetConfig,
+  EnvSchema
+} from "./types";
+import { TARGET_FORMATS } from "./formatters";
+import { SCHEMA_TYPES } from "./schema";
+
+const LEGACY_ENV_SUFFIXES: Record<string, string> = {
+  staging: "stg",
+  production: "prod"
+};
+
+/**
+ * Name operations use for the shared layer
+ */
+export const SHARED_LAYER_NAME = "shared";
+
+const DEFAULT_DELETE_POLICY: DeletePolicy = {
+  maxVersions: 10,
+  maxAgeDays: 30,
+  enabled: true
+};
 
 export class ConfigManager {
   private config: SecretsConfig;
@@ -30,20 +61,54 @@ export class ConfigManager {
   }
 
   private validateConfig(): void {
-    const { serviceAccountPaths, services, projectIds, deletePolicy } = this.config;
+    const {
+      serviceAccountPaths, services, projectIds, environments, backend, encryption, secretSettings, deletePolicy, promotion, shared
+    } = this.config;
 
-    // Validate service account paths
-    if (!serviceAccountPaths || !serviceAccountPaths.staging || !serviceAccountPaths.production) {
-      throw new Error(
-        "Configuration must include serviceAccountPaths for both staging and production"
-      );
+    if (environments !== undefined) {
+      if (typeof environments !== "object" || environments === null || Array.isArray(environments)) {
+        throw new Error("environments must be an object keyed by environment name");
+      }
+
+      Object.entries(environments).forEach(([name, environment]) => {
+        if (!environment || !environment.projectId) {
+          throw new Error(`Environment '${name}' is missing required field: projectId`);
+        }
+
+        if (environment.encryption) {
+          this.validateEncryption(environment.encryption, `environments.${name}.encryption`);
+        }
+
+        if (environment.deletePolicy) {
+          this.validateDeletePolicy(environment.deletePolicy, `environments.${name}.deletePolicy`);
+        }
+
+        if (environment.secretSettings) {
+          this.validateSecretSettings(environment.secretSettings, `environments.${name}.secretSettings`);
+        }
+      });
     }
 
-    // Validate project IDs
-    if (!projectIds || !projectIds.staging || !projectIds.production) {
-      throw new Error(
-        "Configuration must include projectIds for both staging and production"
-      );
+    if (!environments || Object.keys(environments).length === 0) {
+      // Validate service account paths
+      if (!serviceAccountPaths || !serviceAccountPaths.staging || !serviceAccountPaths.production) {
+        throw new Error(
+          "Configuration must include serviceAccountPaths for both staging and production"
+        );
+      }
+
+      // Validate project IDs
+      if (!projectIds || !projectIds.staging || !projectIds.production) {
+        throw new Error(
+          "Configuration must include projectIds for both staging and production"
+        );
+      }
+    }
+
+    const suffixes = this.getEnvironmentNames().map(name => this.getEnvSuffix(name));
+    const duplicateSuffix = suffixes.find((suffix, index) => suffixes.indexOf(suffix) !== index);
+    if (duplicateSuffix) {
+      throw new Error(`Environment file suffix '${duplicateSuffix}' is used by more than one environment`);
     }
 
     // Services are optional now - they can be added later using --add-service
@@ -53,31 +118,283 @@ export class ConfigManager {
 
     if (services && services.length > 0) {
       services.forEach((service, index) => {
-        if (!service.name || !service.envPath || !service.targetPath || !service.secretPrefix) {
+        if (!service.name || !service.envPath || !(service.targetPath || service.targets) || !service.secretPrefix) {
           throw new Error(
-            `Service at index ${index} is missing required fields: name, envPath, targetPath, secretPrefix`
+            `Service at index ${index} is missing required fields: name, envPath, targetPath (or targets), secretPrefix`
           );
         }
+
+        if (service.targets !== undefined) {
+          this.validateTargets(service.targets, `Service '${service.name}' targets`);
+        }
+
+        if (service.schema !== undefined) {
+          this.validateSchemaField(service.schema, `Service '${service.name}' schema`);
+        }
+
+        if (service.storageMode !== undefined && !["file", "per-key"].includes(service.storageMode)) {
+          throw new Error(`Service '${service.name}' has an invalid storageMode: use 'file' or 'per-key'`);
+        }
+
+        if (service.deletePolicy) {
+          this.validateDeletePolicy(service.deletePolicy, `Service '${service.name}' deletePolicy`);
+        }
+
+        if (service.secretSettings) {
+          this.validateSecretSettings(service.secretSettings, `Service '${service.name}' secretSettings`);
+        }
+
+        if (service.promotion) {
+          this.validatePromotionRules(service.promotion, `Service '${service.name}' promotion`);
+        }
+
+        if (service.excludeShared !== undefined && (
+          !Array.isArray(service.excludeShared) || service.excludeShared.some(key => typeof key !== "string" || !key)
+        )) {
+          throw new Error(`Service '${service.name}' excludeShared must be an array of variable names`);
+        }
       });
     }
 
+    if (shared) {
+      this.validateSharedLayer(shared);
+    }
+
+    if (backend && !["gcp", "filesystem"].includes(backend.type)) {
+      throw new Error("backend.type must be either 'gcp' or 'filesystem'");
+    }
+
+    if (encryption) {
+      this.validateEncryption(encryption, "encryption");
+    }
+
+    if (secretSettings) {
+      this.validateSecretSettings(secretSettings, "secretSettings");
+    }
+
+    // Replication and its KMS key are only valid together once every level is merged
+    this.getEnvironmentNames().forEach(environment => {
+      [undefined, ...(shared ? [SHARED_LAYER_NAME] : []), ...this.getServiceNames()].forEach(serviceName => {
+        const { replicationLocations, kmsKeyName } = this.getSecretSettings(serviceName, environment);
+        if (kmsKeyName && replicationLocations && replicationLocations.length > 1 && !kmsKeyName.includes("{location}")) {
+          throw new Error(
+            `secretSettings.kmsKeyName must contain {location} when replicating to more than one location ` +
+            `(environment '${environment}'${serviceName ? `, service '${serviceName}'` : ""})`
+          );
+        }
+      });
+    });
+
     // Validate delete policy if provided
     if (deletePolicy) {
       this.validateDeletePolicy(deletePolicy);
     }
+
+    if (promotion) {
+      this.validatePromotionRules(promotion, "promotion");
+    }
+  }
+
+  private validateEncryption(encryption: EncryptionConfig, field: string): void {
+    if (!encryption.keyFile && !encryption.passphraseEnv) {
+      throw new Error(`${field} must set either keyFile or passphraseEnv`);
+    }
+  }
+
+  private validateSecretSettings(settings: SecretSettings, field: string): void {
+    const { replicationLocations, kmsKeyName, labels } = settings;
+
+    if (replicationLocations !== undefined && (
+      !Array.isArray(replicationLocations) ||
+      replicationLocations.length === 0 ||
+      replicationLocations.some(location => typeof location !== "string" || !location)
+    )) {
+      throw new Error(`${field}.replicationLocations must be a non-empty array of locations`);
+    }
+
+    if (kmsKeyName !== undefined && (typeof kmsKeyName !== "string" || !kmsKeyName)) {
+      throw new Error(`${field}.kmsKeyName must be a Cloud KMS key resource name`);
+    }
+
+    if (labels !== undefined) {
+      if (typeof labels !== "object" || labels === null || Array.isArray(labels)) {
+        throw new Error(`${field}.labels must be an object`);
+      }
+
+      Object.entries(labels).forEach(([key, value]) => {
+        if (!/^[a-z][a-z0-9_-]{0,62}$/.test(key)) {
+          throw new Error(
+            `${field}.labels key '${key}' must start with a lowercase letter and contain only lowercase letters, digits, _ and -`
+          );
+        }
+
+        if (typeof value !== "string" || !/^([a-z0-9_-]|\{service\}|\{env\})*$/.test(value)) {
+          throw new Error(
+            `${field}.labels value for '${key}' must contain only lowercase letters, digits, _, -, {service} and {env}`
+          );
+        }
+      });
+    }
+  }
+
+  private validatePromotionRules(rules: PromotionRules, field: string): void {
+    (["exclude", "perEnvironment"] as const).forEach(list => {
+      const keys = rules[list];
+      if (keys !== undefined && (!Array.isArray(keys) || keys.some(key => typeof key !== "string" || !key))) {
+        throw new Error(`${field}.${list} must be an array of variable names`);
+      }
+    });
+
+    if (rules.rewrites !== undefined) {
+      if (!Array.isArray(rules.rewrites)) {
+        throw new Error(`${field}.rewrites must be an array`);
+      }
+
+      rules.rewrites.forEach((rewrite, index) => {
+        if (!rewrite || typeof rewrite.find !== "string" || !rewrite.find || typeof rewrite.replace !== "string") {
+          throw new Error(`${field}.rewrites[${index}] must have a non-empty find and a replace string`);
+        }
+      });
+    }
   }
 
-  private validateDeletePolicy(policy: DeletePolicy): void {
+  private validateTargets(targets: TargetConfig[], field: string): void {
+    if (!Array.isArray(targets) || targets.length === 0) {
+      throw new Error(`${field} must be a non-empty array`);
+    }
+
+    targets.forEach((target, index) => {
+      if (!target || typeof target.path !== "string" || !target.path) {
+        throw new Error(`${field}[${index}] is missing required field: path`);
+      }
+
+      if (target.format !== undefined && !TARGET_FORMATS.includes(target.format)) {
+        throw new Error(`${field}[${index}].format must be one of ${TARGET_FORMATS.join(", ")}`);
+      }
+
+      (["include", "exclude"] as const).forEach(list => {
+        const patterns = target[list];
+        if (patterns !== undefined && (!Array.isArray(patterns) || patterns.some(key => typeof key !== "string" || !key))) {
+          throw new Error(`${field}[${index}].${list} must be an array of variable names`);
+        }
+      });
+    });
+  }
+
+  /**
+   * Inline schemas are checked here; sidecar files when they are first read
+   */
+  private validateSchemaField(schema: EnvSchema | string, field: string): void {
+    if (typeof schema === "string") {
+      if (!schema) {
+        throw new Error(`${field} must be a schema object or the path of a schema file`);
+      }
+      return;
+    }
+    this.validateSchema(schema, field);
+  }
+
+  private validateSchema(schema: EnvSchema, field: string): void {
+    if (typeof schema !== "object" || schema === null || Array.isArray(schema)) {
+      throw new Error(`${field} must be an object keyed by variable name`);
+    }
+
+    Object.entries(schema).forEach(([key, rule]) => {
+      const ruleField = `${field}.${key}`;
+      if (typeof rule !== "object" || rule === null || Array.isArray(rule)) {
+        throw new Error(`${ruleField} must be an object`);
+      }
+
+      if (rule.type !== undefined && !SCHEMA_TYPES.includes(rule.type)) {
+        throw new Error(`${ruleField}.type must be one of ${SCHEMA_TYPES.join(", ")}`);
+      }
+
+      if (rule.required !== undefined && typeof rule.required !== "boolean" && (
+        !Array.isArray(rule.required) || rule.required.some(environment => typeof environment !== "string")
+      )) {
+        throw new Error(`${ruleField}.required must be a boolean or an array of environment names`);
+      }
+
+      if (rule.type === "enum" && (
+        !Array.isArray(rule.values) || rule.values.length === 0 || rule.values.some(value => typeof value !== "string")
+      )) {
+        throw new Error(`${ruleField}.values must be a non-empty array of strings for an enum`);
+      }
+
+      if (rule.type === "regex") {
+        if (typeof rule.pattern !== "string" || !rule.pattern) {
+          throw new Error(`${ruleField}.pattern is required for a regex`);
+        }
+        try {
+          new RegExp(rule.pattern);
+        } catch (error) {
+          throw new Error(`${ruleField}.pattern is not a valid regular expression: ${(error as Error).message}`);
+        }
+      }
+
+      if (rule.allowedValues !== undefined) {
+        if (typeof rule.allowedValues !== "object" || rule.allowedValues === null || Array.isArray(rule.allowedValues)) {
+          throw new Error(`${ruleField}.allowedValues must be an object keyed by environment name`);
+        }
+
+        Object.entries(rule.allowedValues).forEach(([environment, values]) => {
+          if (!Array.isArray(values) || values.some(value => typeof value !== "string")) {
+            throw new Error(`${ruleField}.allowedValues.${environment} must be an array of strings`);
+          }
+        });
+      }
+    });
+  }
+
+  private validateSharedLayer(shared: SharedLayerConfig): void {
+    if (!shared.envPath || !shared.secretPrefix) {
+      throw new Error("shared is missing required fields: envPath, secretPrefix");
+    }
+
+    if (this.getServiceNames().includes(SHARED_LAYER_NAME)) {
+      throw new Error(`A service cannot be named '${SHARED_LAYER_NAME}' when the shared layer is configured`);
+    }
+
+    if (shared.deletePolicy) {
+      this.validateDeletePolicy(shared.deletePolicy, "shared.deletePolicy");
+    }
+
+    if (shared.secretSettings) {
+      this.validateSecretSettings(shared.secretSettings, "shared.secretSettings");
+    }
+
+    if (shared.promotion) {
+      this.validatePromotionRules(shared.promotion, "shared.promotion");
+    }
+
+    if (shared.schema !== undefined) {
+      this.validateSchemaField(shared.schema, "shared.schema");
+    }
+  }
+
+  private validateDeletePolicy(policy: DeletePolicy, field: string = "deletePolicy"): void {
+    if (typeof policy !== "object" || Array.isArray(policy)) {
+      throw new Error(`${field} must be an object`);
+    }
+
     if (policy.maxVersions !== undefined && (policy.maxVersions < 0 || !Number.isInteger(policy.maxVersions))) {
-      throw new Error("deletePolicy.maxVersions must be a non-negative integer");
+      throw new Error(`${field}.maxVersions must be a non-negative integer`);
     }
 
     if (policy.maxAgeDays !== undefined && (policy.maxAgeDays < 0 || !Number.isInteger(policy.maxAgeDays))) {
-      throw new Error("deletePolicy.maxAgeDays must be a non-negative integer");
+      throw new Error(`${field}.maxAgeDays must be a non-negative integer`);
     }
 
     if (policy.enabled !== undefined && typeof policy.enabled !== 'boolean') {
-      throw new Error("deletePolicy.enabled must be a boolean");
+      throw new Error(`${field}.enabled must be a boolean`);
+    }
+
+    if (policy.mode !== undefined && !["destroy", "disable", "disable-then-destroy"].includes(policy.mode)) {
+      throw new Error(`${field}.mode must be one of 'destroy', 'disable' or 'disable-then-destroy'`);
+    }
+
+    if (policy.graceDays !== undefined && (policy.graceDays < 0 || !Number.isInteger(policy.graceDays))) {
+      throw new Error(`${field}.graceDays must be a non-negative integer`);
     }
   }
 
@@ -85,19 +402,77 @@ export class ConfigManager {
     return this.config;
   }
 
-  getServiceAccountPath(environment: "staging" | "production"): string {
-    return this.config.serviceAccountPaths[environment];
+  /**
+   * Returns every configured environment keyed by name. Legacy `projectIds`/`serviceAccountPaths`
+   * entries are mapped onto "staging" and "production" unless the environments map defines them.
+   */
+  getEnvironments(): Record<string, EnvironmentConfig> {
+    const { serviceAccountPaths, projectIds, environments } = this.config;
+    const resolved: Record<string, EnvironmentConfig> = {};
+
+    if (projectIds) {
+      Object.entries(projectIds).forEach(([name, projectId]) => {
+        resolved[name] = {
+          envSuffix: LEGACY_ENV_SUFFIXES[name] || name,
+          projectId,
+          serviceAccountPath: serviceAccountPaths?.[name as keyof typeof serviceAccountPaths]
+        };
+      });
+    }
+
+    return { ...resolved, ...(environments || {}) };
+  }
+
+  getEnvironmentNames(): string[] {
+    return Object.keys(this.getEnvironments());
+  }
+
+  getEnvironment(environment: Environment): EnvironmentConfig {
+    const config = this.getEnvironments()[environment];
+    if (!config) {
+      throw new Error(
+        `Environment '${environment}' not found in configuration. Available environments: ${this.getEnvironmentNames().join(", ")}`
+      );
+    }
+    return config;
+  }
+
+  /**
+   * Resolves an environment from either its name or its env-file suffix (e.g. "prod" -> "production")
+   */
+  resolveEnvironmentName(nameOrSuffix: string): Environment | undefined {
+    const environments = this.getEnvironments();
+    if (environments[nameOrSuffix]) {
+      return nameOrSuffix;
+    }
+    return Object.keys(environments).find(name => this.getEnvSuffix(name) === nameOrSuffix);
+  }
+
+  getEnvSuffix(environment: Environment): string {
+    return this.getEnvironment(environment).envSuffix || environment;
   }
 
-  getProjectId(environment: "staging" | "production"): string {
-    return this.config.projectIds[environment];
+  getServiceAccountPath(environment: Environment): string | undefined {
+    return this.getEnvironment(environment).serviceAccountPath;
+  }
+
+  getProjectId(environment: Environment): string {
+    return this.getEnvironment(environment).projectId;
   }
 
   getServices(): ServiceConfig[] {
     return this.config.services || [];
   }
 
+  /**
+   * Returns a service, or the shared layer for "shared". The shared layer is only written as
+   * part of each service, so it has no targets.
+   */
   getServiceByName(name: string): ServiceConfig | undefined {
+    const { shared } = this.config;
+    if (name === SHARED_LAYER_NAME && shared) {
+      return { ...shared, name: SHARED_LAYER_NAME };
+    }
     return this.getServices().find(service => service.name === name);
   }
 
@@ -105,12 +480,93 @@ export class ConfigManager {
     return this.getServices().map(service => service.name);
   }
 
-  getDeletePolicy(): DeletePolicy {
-    // Return default delete policy if none is configured
-    return this.config.deletePolicy || {
-      maxVersions: 10,
-      maxAgeDays: 30,
-      enabled: true
+  /**
+   * Returns a service's schema, reading it from its file when the configuration gives a path.
+   * Undefined when the service has no schema.
+   */
+  getSchema(serviceName: string): EnvSchema | undefined {
+    const schema = this.getServiceByName(serviceName)?.schema;
+    if (typeof schema !== "string") {
+      return schema;
+    }
+
+    const schemaPath = path.resolve(path.dirname(this.configPath), schema);
+    if (!fs.existsSync(schemaPath)) {
+      throw new Error(`Schema file not found at ${schemaPath} (schema of '${serviceName}')`);
+    }
+
+    let loaded: EnvSchema;
+    try {
+      loaded = JSON.parse(fs.readFileSync(schemaPath, "utf8"));
+    } catch (error) {
+      throw new Error(`Failed to parse schema file ${schemaPath}: ${(error as Error).message}`);
+    }
+    this.validateSchema(loaded, `Schema file ${schemaPath}`);
+    return loaded;
+  }
+
+  /**
+   * Returns the shared layer, or undefined when none is configured
+   */
+  getSharedLayer(): SharedLayerConfig | undefined {
+    return this.config.shared;
+  }
+
+  getBackendConfig(): BackendConfig {
+    return this.config.backend || { type: "gcp" };
+  }
+
+  /**
+   * Returns the encryption settings for an environment, or undefined when payloads are stored in plaintext
+   */
+  getEncryptionConfig(environment: Environment): EncryptionConfig | undefined {
+    return this.getEnvironment(environment).encryption || this.config.encryption;
+  }
+
+  /**
+   * Returns the delete policy for a service in an environment. Fields set on the service override
+   * those set on the environment, which override the global policy (or the defaults when there is none).
+   */
+  getDeletePolicy(serviceName?: string, environment?: Environment): DeletePolicy {
+    const environmentPolicy = environment ? this.getEnvironment(environment).deletePolicy : undefined;
+    const servicePolicy = serviceName ? this.getServiceByName(serviceName)?.deletePolicy : undefined;
+
+    return {
+      ...(this.config.deletePolicy || DEFAULT_DELETE_POLICY),
+      ...environmentPolicy,
+      ...servicePolicy
+    };
+  }
+
+  /**
+   * Returns the settings for a service's secrets in an environment. Replication and KMS key set on the
+   * service override the environment's, which override the global settings; labels from every level are merged.
+   */
+  getSecretSettings(serviceName?: string, environment?: Environment): SecretSettings {
+    const levels = [
+      this.config.secretSettings,
+      environment ? this.getEnvironment(environment).secretSettings : undefined,
+      serviceName ? this.getServiceByName(serviceName)?.secretSettings : undefined
+    ].filter((settings): settings is SecretSettings => !!settings);
+
+    return levels.reduce<SecretSettings>((merged, settings) => ({
+      ...merged,
+      ...settings,
+      labels: { ...merged.labels, ...settings.labels }
+    }), {});
+  }
+
+  /**
+   * Returns the promotion rules for a service: the global rules plus the service's own
+   */
+  getPromotionRules(serviceName: string): PromotionRules {
+    const levels = [this.config.promotion, this.getServiceByName(serviceName)?.promotion]
+      .filter((rules): rules is PromotionRules => !!rules);
+
+    return {
+      exclude: levels.flatMap(rules => rules.exclude || []),
+      perEnvironment: levels.flatMap(rules => rules.perEnvironment || []),
+      rewrites: levels.flatMap(rules => rules.rewrites || []),
     };
   }
 
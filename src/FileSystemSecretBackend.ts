@@ -0,0 +1,242 @@
+import fs from "fs";
+import path from "path";
+import {
+  AccessSecretVersionResponse,
+  Secret,
+  SecretBackend,
+  SecretPayload,
+  SecretVersion
+} from "./SecretBackend";
+import { crc32c } from "./crc32c";
+
+type VersionState = "ENABLED" | "DISABLED" | "DESTROYED";
+
+interface StoredVersion {
+  state: VersionState;
+  createTime: string;
+  destroyTime?: string;
+  /** Base64 encoded payload, removed once the version is destroyed */
+  data?: string;
+  /** CRC32C of the payload, returned on access so readers can detect corruption */
+  dataCrc32c?: number;
+}
+
+const SECRET_NAME_PATTERN = /^projects\/([^/]+)\/secrets\/([^/]+)$/;
+const VERSION_NAME_PATTERN = /^projects\/([^/]+)\/secrets\/([^/]+)\/versions\/([^/]+)$/;
+
+// Mirror the gRPC status codes used by Secret Manager so callers can handle both backends alike
+const grpcError = (code: number, status: string, message: string): Error =>
+  Object.assign(new Error(`${code} ${status}: ${message}`), { code });
+
+const toTimestamp = (isoTime?: string) =>
+  isoTime ? { seconds: Math.floor(new Date(isoTime).getTime() / 1000) } : null;
+
+/**
+ * Secret backend that keeps secrets in a local directory, for offline development and tests.
+ *
+ * Layout: {root}/{project}/{secret}/secret.json and {root}/{project}/{secret}/versions/{n}.json
+ */
+export class FileSystemSecretBackend implements SecretBackend {
+  private rootDir: string;
+
+  constructor(rootDir: string) {
+    this.rootDir = rootDir;
+  }
+
+  async getSecret(request: { name: string }): Promise<[Secret]> {
+    const secretDir = this.getSecretDir(request.name);
+    return [{ ...this.readJson<Secret>(path.join(secretDir, "secret.json")), name: request.name }];
+  }
+
+  async createSecret(request: { parent: string; secretId: string; secret: Secret }): Promise<[Secret]> {
+    const name = `${request.parent}/secrets/${request.secretId}`;
+    const secretDir = this.resolveSecretDir(name);
+
+    if (fs.existsSync(path.join(secretDir, "secret.json"))) {
+      throw grpcError(6, "ALREADY_EXISTS", `Secret [${name}] already exists.`);
+    }
+
+    const secret: Secret = {
+      ...request.secret,
+      name,
+      createTime: toTimestamp(new Date().toISOString()),
+    };
+
+    fs.mkdirSync(path.join(secretDir, "versions"), { recursive: true });
+    this.writeJson(path.join(secretDir, "secret.json"), secret);
+    return [secret];
+  }
+
+  async updateSecret(request: { secret: Secret; updateMask: { paths: string[] } }): Promise<[Secret]> {
+    const name = request.secret.name || "";
+    const secretFile = path.join(this.getSecretDir(name), "secret.json");
+    const updated: Record<string, unknown> = { ...this.readJson<Secret>(secretFile) };
+
+    request.updateMask.paths.forEach(field => {
+      updated[field] = (request.secret as Record<string, unknown>)[field];
+    });
+
+    this.writeJson(secretFile, updated);
+    return [{ ...updated, name }];
+  }
+
+  async addSecretVersion(request: { parent: string; payload: SecretPayload }): Promise<[SecretVersion]> {
+    const secretDir = this.getSecretDir(request.parent);
+    const data = request.payload.data;
+    const buffer = typeof data === "string" ? Buffer.from(data, "base64") : Buffer.from(data || []);
+
+    const checksum = crc32c(buffer);
+    const expected = request.payload.dataCrc32c;
+    if (expected !== undefined && expected !== null && String(expected) !== String(checksum)) {
+      throw grpcError(3, "INVALID_ARGUMENT", `Checksum mismatch for payload of secret [${request.parent}].`);
+    }
+
+    const nextVersion = Math.max(0, ...this.listVersionNumbers(secretDir)) + 1;
+    const stored: StoredVersion = {
+      state: "ENABLED",
+      createTime: new Date().toISOString(),
+      data: buffer.toString("base64"),
+      dataCrc32c: checksum,
+    };
+
+    this.writeJson(this.getVersionFile(secretDir, String(nextVersion)), stored);
+    return [this.toSecretVersion(`${request.parent}/versions/${nextVersion}`, stored)];
+  }
+
+  async listSecretVersions(request: { parent: string; pageSize?: number }): Promise<[SecretVersion[]]> {
+    const secretDir = this.getSecretDir(request.parent);
+
+    // Newest first, like Secret Manager
+    const versions = this.listVersionNumbers(secretDir)
+      .sort((a, b) => b - a)
+      .map(version => this.toSecretVersion(
+        `${request.parent}/versions/${version}`,
+        this.readJson<StoredVersion>(this.getVersionFile(secretDir, String(version)))
+      ));
+
+    return [versions];
+  }
+
+  async accessSecretVersion(request: { name: string }): Promise<[AccessSecretVersionResponse]> {
+    const { name, stored } = this.readVersion(request.name);
+
+    if (stored.state !== "ENABLED" || stored.data === undefined) {
+      throw grpcError(9, "FAILED_PRECONDITION", `Secret Version [${name}] is in ${stored.state} state.`);
+    }
+
+    return [{ name, payload: { data: Buffer.from(stored.data, "base64"), dataCrc32c: stored.dataCrc32c } }];
+  }
+
+  async disableSecretVersion(request: { name: string }): Promise<[SecretVersion]> {
+    return this.setVersionState(request.name, "DISABLED");
+  }
+
+  async enableSecretVersion(request: { name: string }): Promise<[SecretVersion]> {
+    return this.setVersionState(request.name, "ENABLED");
+  }
+
+  async destroySecretVersion(request: { name: string }): Promise<[SecretVersion]> {
+    const { name, file, stored } = this.readVersion(request.name);
+
+    const destroyed: StoredVersion = {
+      state: "DESTROYED",
+      createTime: stored.createTime,
+      destroyTime: new Date().toISOString(),
+    };
+
+    this.writeJson(file, destroyed);
+    return [this.toSecretVersion(name, destroyed)];
+  }
+
+  private setVersionState(versionName: string, state: "ENABLED" | "DISABLED"): [SecretVersion] {
+    const { name, file, stored } = this.readVersion(versionName);
+
+    if (stored.state === "DESTROYED") {
+      throw grpcError(9, "FAILED_PRECONDITION", `Secret Version [${name}] is in DESTROYED state.`);
+    }
+
+    const updated: StoredVersion = { ...stored, state };
+    this.writeJson(file, updated);
+    return [this.toSecretVersion(name, updated)];
+  }
+
+  /**
+   * Resolves a version resource name, including the "latest" alias, to its stored record
+   */
+  private readVersion(versionName: string): { name: string; file: string; stored: StoredVersion } {
+    const match = versionName.match(VERSION_NAME_PATTERN);
+    if (!match) {
+      throw grpcError(3, "INVALID_ARGUMENT", `Invalid secret version name [${versionName}].`);
+    }
+
+    const secretName = `projects/${match[1]}/secrets/${match[2]}`;
+    const secretDir = this.getSecretDir(secretName);
+
+    let version = match[3];
+    if (version === "latest") {
+      const versions = this.listVersionNumbers(secretDir);
+      if (versions.length === 0) {
+        throw grpcError(5, "NOT_FOUND", `Secret [${secretName}] not found or has no versions.`);
+      }
+      version = String(Math.max(...versions));
+    }
+
+    const file = this.getVersionFile(secretDir, version);
+    if (!fs.existsSync(file)) {
+      throw grpcError(5, "NOT_FOUND", `Secret Version [${secretName}/versions/${version}] not found.`);
+    }
+
+    return { name: `${secretName}/versions/${version}`, file, stored: this.readJson<StoredVersion>(file) };
+  }
+
+  private resolveSecretDir(secretName: string): string {
+    const match = secretName.match(SECRET_NAME_PATTERN);
+    if (!match) {
+      throw grpcError(3, "INVALID_ARGUMENT", `Invalid secret name [${secretName}].`);
+    }
+    return path.join(this.rootDir, match[1], match[2]);
+  }
+
+  /**
+   * Returns the directory of an existing secret
+   */
+  private getSecretDir(secretName: string): string {
+    const secretDir = this.resolveSecretDir(secretName);
+    if (!fs.existsSync(path.join(secretDir, "secret.json"))) {
+      throw grpcError(5, "NOT_FOUND", `Secret [${secretName}] not found.`);
+    }
+    return secretDir;
+  }
+
+  private getVersionFile(secretDir: string, version: string): string {
+    return path.join(secretDir, "versions", `${version}.json`);
+  }
+
+  private listVersionNumbers(secretDir: string): number[] {
+    const versionsDir = path.join(secretDir, "versions");
+    if (!fs.existsSync(versionsDir)) {
+      return [];
+    }
+
+    return fs.readdirSync(versionsDir)
+      .filter(file => /^\d+\.json$/.test(file))
+      .map(file => parseInt(file, 10));
+  }
+
+  private toSecretVersion(name: string, stored: StoredVersion): SecretVersion {
+    return {
+      name,
+      state: stored.state,
+      createTime: toTimestamp(stored.createTime),
+      destroyTime: toTimestamp(stored.destroyTime),
+    };
+  }
+
+  private readJson<T>(file: string): T {
+    return JSON.parse(fs.readFileSync(file, "utf8"));
+  }
+
+  private writeJson(file: string, value: unknown): void {
+    fs.writeFileSync(file, JSON.stringify(value, null, 2));
+  }
+}
@@ -1,58 +1,190 @@
-import { initializeApp, cert } from "firebase-admin/app";
-import { SecretManagerServiceClient } from "@google-cloud/secret-manager";
 import fs from "fs";
 import path from "path";
-import { Environment, GcpMonorepoSecretManagerOptions, ServiceConfig, DeletePolicy } from "./types";
-import { ConfigManager } from "./ConfigManager";
+import {
+  Environment,
+  GcpMonorepoSecretManagerOptions,
+  ServiceConfig,
+  DeletePolicy,
+  SecretReadOptions,
+  SecretVersionHistoryEntry,
+  UploadOptions,
+  BackendConfig,
+  VersionProvenance,
+  Logger,
+  PromoteOptions,
+  ServiceResult,
+  DownloadOptions,
+  TargetConfig
+} from "./types";
+import { ConfigManager, SHARED_LAYER_NAME } from "./ConfigManager";
+import { Secret, SecretBackend, SecretPayload, SecretVersion } from "./SecretBackend";
+import { createSecretBackend } from "./createSecretBackend";
+import { SyncState, SyncStateEntry } from "./SyncState";
+import { SecretLock } from "./SecretLock";
+import { createLock, mapWithConcurrency } from "./concurrency";
+import { consoleLogger } from "./logger";
+import { checksum, diffEnv, formatEnvDiff, hasChanges, layerEnv, parseEnv, serializeEnv } from "./envFile";
+import { EnvelopeEncryption, isEncryptedPayload } from "./encryption";
+import { crc32c, verifyCrc32c } from "./crc32c";
+import { applyPromotionRules } from "./promotion";
+import { hasConflictMarkers, mergeEnv, renderMerge } from "./merge";
+import { resolveReferences } from "./references";
+import { formatEnv } from "./formatters";
+import { assertValidEnv } from "./schema";
+import {
+  addProvenanceAnnotation,
+  collectProvenance,
+  formatProvenance,
+  parseProvenance,
+  provenanceAnnotation,
+  resolveIdentity
+} from "./provenance";
+
+type UploadStatus = "created" | "updated" | "skipped";
+
+interface UploadResult {
+  status: UploadStatus;
+  /** Version now holding the uploaded content, when known */
+  version?: string;
+  /** Cleanup failures after the upload, which did not fail it */
+  warnings?: string[];
+}
+
+interface CleanupResult {
+  /** Versions destroyed or disabled */
+  cleaned: number;
+  /** Why cleanup failed, leaving old versions in place */
+  warning?: string;
+}
+
+type ServiceRunOutcome = Omit<ServiceResult, "service" | "environment" | "error">;
+
+/**
+ * Where an environment's secrets are read from
+ */
+interface SecretLocation {
+  environment: Environment;
+  projectId: string;
+  backend: SecretBackend;
+  encryption?: EnvelopeEncryption;
+}
+
+interface RunOptions {
+  /** Services processed at once, defaulting to the configured concurrency */
+  concurrency?: number;
+  /** Print the "all" summary table only when a service failed, for operations with their own output */
+  summaryOnFailure?: boolean;
+  /** Print the summary table for a single service too, once it succeeded */
+  singleSummary?: boolean;
+}
+
+/**
+ * Thrown when an operation on "all" failed for at least one service. Carries the result of
+ * every service, including the ones that succeeded.
+ */
+export class ServiceOperationError extends Error {
+  readonly results: ServiceResult[];
+
+  constructor(message: string, results: ServiceResult[]) {
+    super(message);
+    this.name = "ServiceOperationError";
+    this.results = results;
+  }
+}
+
+const DEFAULT_CONCURRENCY = 4;
+
+// Per-key services keep their ordered key list in `${secretPrefix}_ENV_KEYS`
+const KEY_MANIFEST_SUFFIX = "ENV_KEYS";
+
+const versionNumber = (name?: string | null): string => (name || "").split("/").pop() || "";
+
+const DEFAULT_GRACE_DAYS = 7;
+
+// Cleanup records when it disabled a version in a `msm-disabled-{version}` secret annotation
+const DISABLED_AT_ANNOTATION_PREFIX = "msm-disabled-";
+
+const disabledAtAnnotation = (versionName?: string | null): string =>
+  `${DISABLED_AT_ANNOTATION_PREFIX}${versionNumber(versionName)}`;
+
+/**
+ * Normalized description of a replication policy, e.g. "user-managed in europe-west1 (CMEK key), europe-west4 (CMEK key)"
+ */
+const describeReplication = (replication?: Secret["replication"]): string => {
+  const cmek = (encryption?: { kmsKeyName?: string | null } | null) =>
+    encryption?.kmsKeyName ? ` (CMEK ${encryption.kmsKeyName})` : "";
+
+  if (replication?.userManaged) {
+    const replicas = (replication.userManaged.replicas || [])
+      .map(replica => `${replica.location}${cmek(replica.customerManagedEncryption)}`)
+      .sort();
+    return `user-managed in ${replicas.join(", ")}`;
+  }
+
+  return `automatic${cmek(replication?.automatic?.customerManagedEncryption)}`;
+};
 
 export class GcpMonorepoSecretManager {
   private environment: Environment;
   private overrideSa: boolean;
-  private client: SecretManagerServiceClient;
+  private dryRun: boolean;
+  private concurrency: number;
+  private backendConfig: BackendConfig;
+  private backend: SecretBackend;
+  private credentialsPath?: string;
+  private encryption?: EnvelopeEncryption;
+  private provenance?: VersionProvenance;
   private projectId: string;
   private configManager: ConfigManager;
+  private syncState: SyncState;
+  private secretLock: SecretLock;
+  private logger: Logger;
 
   constructor(options: GcpMonorepoSecretManagerOptions) {
     this.environment = options.environment;
+    this.logger = options.logger || consoleLogger;
     this.overrideSa = options.overrideSa || false;
+    this.dryRun = options.dryRun || false;
+    this.concurrency = options.concurrency || DEFAULT_CONCURRENCY;
     this.configManager = new ConfigManager(options.configPath);
+    const configDir = path.dirname(options.configPath || ".secrets-config");
+    this.syncState = new SyncState(path.join(configDir, ".secrets-state"));
+    this.secretLock = new SecretLock(path.join(configDir, ".secrets-lock"));
     this.projectId = this.configManager.getProjectId(this.environment);
     
-    this.initializeFirebase();
-    this.client = this.getSecretManagerClient();
+    this.backendConfig = options.backend || this.configManager.getBackendConfig();
+
+    this.credentialsPath = this.resolveCredentialsPath(this.environment);
+    this.backend = createSecretBackend(this.backendConfig, this.projectId, this.credentialsPath);
+
+    const encryptionConfig = this.configManager.getEncryptionConfig(this.environment);
+    if (encryptionConfig) {
+      this.encryption = new EnvelopeEncryption(encryptionConfig);
+    }
   }
 
-  private initializeFirebase() {
-    if (this.overrideSa) {
-      initializeApp();
-      return;
+  /**
+   * The service account key file an environment's Secret Manager client authenticates with.
+   * Each client gets its own key file, so instances for different environments can run side by
+   * side without touching process.env. Unset with --override-sa, where the client falls back to
+   * Application Default Credentials, and for the filesystem backend, which works offline.
+   */
+  private resolveCredentialsPath(environment: Environment): string | undefined {
+    if (this.backendConfig.type !== "gcp" || this.overrideSa) {
+      return undefined;
+    }
+
+    const saPath = this.configManager.getServiceAccountPath(environment);
+
+    if (!saPath) {
+      throw new Error(`No service account path configured for environment '${environment}'`);
     }
-    
-    const saPath = this.configManager.getServiceAccountPath(this.environment);
       
     if (!fs.existsSync(saPath)) {
       throw new Error(`Service account file not found at ${saPath}`);
     }
-    
-    // Set the GOOGLE_APPLICATION_CREDENTIALS environment variable
-    process.env.GOOGLE_APPLICATION_CREDENTIALS = path.resolve(saPath);
-    
-    const serviceAccount = JSON.parse(
-      fs.readFileSync(path.join("./", saPath), "utf8")
-    );
-    
-    initializeApp({
-      credential: cert(serviceAccount),
-    });
-    
-    // Set the project ID for other Google Cloud services
-    process.env.GOOGLE_CLOUD_PROJECT = serviceAccount.project_id;
-  }
 
-  private getSecretManagerClient(): SecretManagerServiceClient {
-    return new SecretManagerServiceClient({
-      projectId: this.projectId
-    });
+    return path.resolve(saPath);
   }
 
   private getEnvPath(serviceName: string): string {
@@ -61,7 +193,7 @@ export class GcpMonorepoSecretManager {
       throw new Error(`Service '${serviceName}' not found in configuration`);
     }
     
-    const envSuffix = this.environment === "staging" ? "stg" : "prod";
+    const envSuffix = this.configManager.getEnvSuffix(this.environment);
     return service.envPath.replace("{env}", envSuffix);
   }
 
@@ -74,109 +206,341 @@ export class GcpMonorepoSecretManager {
     return `${service.secretPrefix}_ENV_FILE`;
   }
 
-  private getTargetPath(serviceName: string): string {
+  /**
+   * The secret holding a file-mode service's env file, unset for per-key services
+   */
+  private getFileSecretName(serviceName: string): string | undefined {
+    return this.isPerKey(serviceName) ? undefined : this.getSecretName(serviceName);
+  }
+
+  private isPerKey(serviceName: string): boolean {
+    return this.configManager.getServiceByName(serviceName)?.storageMode === "per-key";
+  }
+
+  private assertFileMode(serviceName: string, operation: string): void {
+    if (this.isPerKey(serviceName)) {
+      throw new Error(`${operation} is not supported for per-key service '${serviceName}'`);
+    }
+  }
+
+  private getKeySecretName(serviceName: string, key: string): string {
+    const service = this.configManager.getServiceByName(serviceName)!;
+    return `${service.secretPrefix}_${key}`;
+  }
+
+  private getKeyManifestName(serviceName: string): string {
+    return this.getKeySecretName(serviceName, KEY_MANIFEST_SUFFIX);
+  }
+
+  /**
+   * Files set writes for a service: targetPath as dotenv, then the configured targets
+   */
+  private getTargets(serviceName: string): TargetConfig[] {
     const service = this.configManager.getServiceByName(serviceName);
     if (!service) {
       throw new Error(`Service '${serviceName}' not found in configuration`);
     }
     
-    return service.targetPath;
+    return [...(service.targetPath ? [{ path: service.targetPath }] : []), ...(service.targets || [])];
   }
 
   getAvailableServices(): string[] {
     return this.configManager.getServiceNames();
   }
 
-  async uploadEnv(serviceName: string): Promise<void> {
-    if (serviceName === "all") {
-      const services = this.configManager.getServiceNames();
-      for (const service of services) {
-        await this.uploadSingleEnv(service);
+  async uploadEnv(serviceName: string, options: UploadOptions = {}): Promise<ServiceResult[]> {
+    return this.runForServices(serviceName, "Upload", service => this.uploadSingleEnv(service, options), {
+      singleSummary: true,
+    });
+  }
+
+  /**
+   * Runs an operation for one service, or for every service when serviceName is "all".
+   * "all" runs with bounded concurrency, keeps going after failures, prints a summary table
+   * and then throws a ServiceOperationError if any service failed. A single service rethrows its own error.
+   */
+  private async runForServices(
+    serviceName: string,
+    operation: string,
+    run: (service: string) => Promise<ServiceRunOutcome | void>,
+    options: RunOptions = {}
+  ): Promise<ServiceResult[]> {
+    // "all" covers the shared layer first, when there is one
+    const services = serviceName === "all"
+      ? [...(this.configManager.getSharedLayer() ? [SHARED_LAYER_NAME] : []), ...this.configManager.getServiceNames()]
+      : [serviceName];
+    const environment = this.environment;
+
+    const results = await mapWithConcurrency(services, options.concurrency || this.concurrency, async (service): Promise<ServiceResult> => {
+      try {
+        const outcome = await run(service);
+        return { service, environment, status: "succeeded", ...(outcome || {}) };
+      } catch (error) {
+        return { service, environment, status: "failed", error: error as Error };
       }
-      return;
+    });
+
+    if (serviceName !== "all") {
+      const [result] = results;
+      if (result.error) {
+        throw result.error;
+      }
+      if (options.singleSummary) {
+        this.printResults(operation, results);
+      }
+      return results;
     }
-    
-    await this.uploadSingleEnv(serviceName);
+
+    const failed = results.filter(result => result.status === "failed");
+    if (!options.summaryOnFailure || failed.length > 0) {
+      this.printResults(operation, results);
+    }
+
+    if (failed.length > 0) {
+      throw new ServiceOperationError(
+        `${operation} failed for ${failed.length} of ${results.length} service(s): ${failed.map(result => result.service).join(", ")}`,
+        results
+      );
+    }
+
+    return results;
+  }
+
+  private printResults(operation: string, results: ServiceResult[]): void {
+    const count = (status: ServiceResult["status"]) => results.filter(result => result.status === status).length;
+    const width = Math.max(7, ...results.map(result => result.service.length)) + 2;
+
+    this.logger.info(`\n📋 ${operation} summary for ${this.environment}${this.dryRun ? " (dry run, nothing was changed)" : ""}:\n`);
+    this.logger.info(`  ${"SERVICE".padEnd(width)}${"STATUS".padEnd(11)}DETAIL`);
+    results.forEach(result => {
+      const detail = result.error ? result.error.message : result.detail || "";
+      const warnings = (result.warnings || []).map(warning => `⚠️  ${warning}`);
+      this.logger.info(`  ${result.service.padEnd(width)}${result.status.padEnd(11)}${[detail, ...warnings].filter(Boolean).join("; ")}`);
+    });
+    const warned = results.filter(result => result.warnings?.length).length;
+    this.logger.info(
+      `\n  ${count("succeeded")} succeeded, ${count("failed")} failed, ${count("skipped")} skipped` +
+      `${warned > 0 ? `, ${warned} with warnings` : ""}\n`
+    );
   }
 
-  private async uploadSingleEnv(serviceName: string): Promise<void> {
+  private async uploadSingleEnv(serviceName: string, options: UploadOptions = {}): Promise<ServiceRunOutcome> {
     const envPath = this.getEnvPath(serviceName);
     if (!fs.existsSync(envPath)) {
       throw new Error(`Environment file not found at ${envPath}`);
     }
 
     const envContent = fs.readFileSync(envPath, "utf8");
-    const secretName = this.getSecretName(serviceName);
+
+    if (hasConflictMarkers(envContent)) {
+      throw new Error(`${envPath} has unresolved conflict markers. Resolve them before uploading.`);
+    }
+
+    await this.assertMatchesSchema(serviceName, envContent, { localFiles: true });
+
+    if (!options.force) {
+      await this.assertRemoteUnchanged(serviceName, envContent);
+    }
+
+    const { status, version, warnings } = this.isPerKey(serviceName)
+      ? await this.uploadPerKeyEnv(serviceName, envContent, options)
+      : await this.uploadSecret(serviceName, this.getSecretName(serviceName), envContent, options);
+
+    // The local file now matches the remote, so it becomes the base for the next upload
+    if (!this.dryRun) {
+      this.syncState.set(this.environment, serviceName, { version, checksum: this.syncChecksum(serviceName, envContent) });
+    }
+
+    const secretName = this.getFileSecretName(serviceName);
+    const bytes = Buffer.byteLength(envContent);
+
+    if (status === "skipped") {
+      this.logger.info(`⏭️  ${serviceName} is unchanged in ${this.environment}, skipping upload (use --force to upload anyway)`);
+      return { status: "skipped", action: "unchanged", secretName, version, bytes, detail: "unchanged" };
+    }
+
+    if (!this.dryRun) {
+      this.logger.info(
+        `✅ ${serviceName} environment file successfully uploaded to Secret Manager for ${this.environment}`
+      );
+    }
+    return { status: "succeeded", action: status, secretName, version, bytes, detail: status, warnings };
+  }
+
+  /**
+   * Splits the env file into one secret per variable plus a manifest secret holding the key order
+   */
+  private async uploadPerKeyEnv(serviceName: string, envContent: string, options: UploadOptions): Promise<UploadResult> {
+    const vars = parseEnv(envContent);
+    const keys = Object.keys(vars);
+
+    keys.forEach(key => {
+      if (!/^[A-Za-z0-9_-]+$/.test(key) || key === KEY_MANIFEST_SUFFIX) {
+        throw new Error(`Variable '${key}' in ${serviceName} cannot be stored as its own secret`);
+      }
+    });
+
+    const results: UploadResult[] = [];
+    for (const key of keys) {
+      results.push(await this.uploadSecret(serviceName, this.getKeySecretName(serviceName, key), vars[key], options));
+    }
+
+    // Written last so readers never see keys whose secrets do not exist yet
+    const manifest = await this.uploadSecret(serviceName, this.getKeyManifestName(serviceName), JSON.stringify(keys), options);
+    const statuses = [...results, manifest].map(result => result.status);
+    const warnings = [...results, manifest].flatMap(result => result.warnings || []);
+
+    return {
+      status: manifest.status === "created" ? "created" : statuses.every(status => status === "skipped") ? "skipped" : "updated",
+      warnings: warnings.length > 0 ? warnings : undefined,
+    };
+  }
+
+  /**
+   * Adds content as a new version of a secret, creating the secret first if it does not exist.
+   * Content identical to the latest version is skipped unless forced.
+   */
+  private async uploadSecret(
+    serviceName: string,
+    secretName: string,
+    content: string,
+    options: UploadOptions
+  ): Promise<UploadResult> {
     const secretPath = `projects/${this.projectId}/secrets/${secretName}`;
     
     try {
       // Try to access the secret to see if it exists
-      await this.client.getSecret({ name: secretPath });
+      await this.backend.getSecret({ name: secretPath });
+    } catch (error) {
+      // Secret doesn't exist, create it
+      if (!(error as Error).message.includes('NOT_FOUND')) {
+        throw error;
+      }
+
+      if (this.dryRun) {
+        this.logger.info(`🔎 [dry-run] Would create secret ${secretName}`);
+        return { status: "created" };
+      }
+
+      await this.backend.createSecret({
+        parent: `projects/${this.projectId}`,
+        secretId: secretName,
+        secret: this.buildSecretSpec(serviceName),
+      });
       
-      // Secret exists, add a new version
-      const [version] = await this.client.addSecretVersion({
+      // Add the first version
+      const [version] = await this.backend.addSecretVersion({
         parent: secretPath,
-        payload: {
-          data: Buffer.from(envContent, 'utf8'),
-        },
+        payload: this.encodePayload(content),
       });
-      console.log(`Updated secret ${secretName} with new version: ${version.name}`);
-      
-      // Clean up old versions after successful upload
-      await this.cleanupSecretVersions(secretName);
-      
+      await this.recordProvenance(secretPath, version.name, options.message);
+      this.logger.info(`Created new secret ${secretName} with version: ${version.name}`);
+      return { status: "created", version: versionNumber(version.name) };
+    }
+
+    // Secret exists, skip the upload if latest already holds this exact content
+    if (!options.force) {
+      const latest = await this.readLatestVersion(secretName);
+      if (latest && checksum(latest.content) === checksum(content)) {
+        return { status: "skipped", version: latest.version };
+      }
+    }
+    
+    if (this.dryRun) {
+      this.logger.info(`🔎 [dry-run] Would add a new version to secret ${secretName}`);
+      return { status: "updated" };
+    }
+    
+    // Add a new version
+    const [version] = await this.backend.addSecretVersion({
+      parent: secretPath,
+      payload: this.encodePayload(content),
+    });
+    await this.recordProvenance(secretPath, version.name, options.message);
+    this.logger.info(`Updated secret ${secretName} with new version: ${version.name}`);
+    
+    // Clean up old versions after successful upload
+    const { warning } = await this.cleanupSecretVersions(serviceName, secretName);
+    return { status: "updated", version: versionNumber(version.name), warnings: warning ? [warning] : undefined };
+  }
+
+  /**
+   * Reads the latest version for comparison with new content. Any failure to read
+   * latest (no versions yet, latest disabled) counts as changed.
+   */
+  private async readLatestVersion(secretName: string): Promise<{ version: string; content: string } | undefined> {
+    try {
+      return await this.readSecretVersion(secretName);
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Checksum recorded in the sync state. Per-key services are reassembled with normalized
+   * quoting, so their content is compared by its parsed variables.
+   */
+  private syncChecksum(serviceName: string, content: string): string {
+    return checksum(this.isPerKey(serviceName) ? serializeEnv(Object.entries(parseEnv(content))) : content);
+  }
+
+  /**
+   * Refuses the upload when the remote env changed since the local file was downloaded or
+   * last uploaded, so one person's upload does not silently drop another's keys.
+   * Files with no recorded sync are not checked.
+   */
+  private async assertRemoteUnchanged(serviceName: string, envContent: string): Promise<void> {
+    const base = this.syncState.get(this.environment, serviceName);
+    if (!base) {
+      return;
+    }
+
+    let latest: { version?: string; content: string };
+    try {
+      latest = await this.readServiceVersion(serviceName);
     } catch (error) {
-      // Secret doesn't exist, create it
       if ((error as Error).message.includes('NOT_FOUND')) {
-        await this.client.createSecret({
-          parent: `projects/${this.projectId}`,
-          secretId: secretName,
-          secret: {
-            replication: {
-              automatic: {},
-            },
-          },
-        });
-        
-        // Add the first version
-        const [version] = await this.client.addSecretVersion({
-          parent: secretPath,
-          payload: {
-            data: Buffer.from(envContent, 'utf8'),
-          },
-        });
-        console.log(`Created new secret ${secretName} with version: ${version.name}`);
-      } else {
-        throw error;
+        return;
       }
+      throw error;
+    }
+
+    const latestChecksum = this.syncChecksum(serviceName, latest.content);
+    if (latestChecksum === base.checksum || latestChecksum === this.syncChecksum(serviceName, envContent)) {
+      return;
     }
 
-    console.log(
-      `✅ ${serviceName} environment file successfully uploaded to Secret Manager for ${this.environment}`
+    const versions = base.version && latest.version
+      ? ` (your file is based on version ${base.version}, latest is version ${latest.version})`
+      : "";
+    throw new Error(
+      `${serviceName} changed in ${this.environment} since your local file was last synced${versions}. ` +
+      `Review with --diff, download to merge latest into your file, or upload with --force to overwrite.`
     );
   }
 
   /**
-   * Clean up old secret versions based on the delete policy
+   * Clean up old secret versions based on the delete policy. A failure does not throw, so it
+   * cannot fail the upload before it; it is returned as a warning for the summary instead.
    */
-  private async cleanupSecretVersions(secretName: string): Promise<void> {
-    const deletePolicy = this.configManager.getDeletePolicy();
+  private async cleanupSecretVersions(serviceName: string, secretName: string): Promise<CleanupResult> {
+    const deletePolicy = this.configManager.getDeletePolicy(serviceName, this.environment);
     
     if (!deletePolicy.enabled) {
-      return;
+      return { cleaned: 0 };
     }
 
     const secretPath = `projects/${this.projectId}/secrets/${secretName}`;
 
     try {
       // List all versions of the secret
-      const [versions] = await this.client.listSecretVersions({
+      const [versions] = await this.backend.listSecretVersions({
         parent: secretPath,
         pageSize: 100 // Adjust if you expect more versions
       });
 
       if (!versions || versions.length <= 1) {
-        return; // Nothing to clean up
+        return { cleaned: 0 }; // Nothing to clean up
       }
 
       // Sort versions by creation time (newest first)
@@ -215,184 +579,1288 @@ export class GcpMonorepoSecretManager {
         });
       }
 
-      // Always keep at least 1 version
-      if (versionsToDestroy.length >= sortedVersions.length) {
-        versionsToDestroy.splice(-1, 1);
+      // Always keep the newest version, which may have just been uploaded or restored
+      const newestIndex = versionsToDestroy.findIndex(v => v.name === sortedVersions[0]?.name);
+      if (newestIndex !== -1) {
+        versionsToDestroy.splice(newestIndex, 1);
       }
 
-      // Destroy the marked versions
-      if (versionsToDestroy.length > 0) {
-        console.log(`🧹 Cleaning up ${versionsToDestroy.length} old version(s) of ${secretName}`);
-        
-        for (const version of versionsToDestroy) {
-          if (version.name) {
-            try {
-              await this.client.destroySecretVersion({
-                name: version.name
-              });
-              console.log(`   Destroyed version: ${version.name.split('/').pop()}`);
-            } catch (error) {
-              console.warn(`   Warning: Could not destroy version ${version.name}: ${(error as Error).message}`);
-            }
-          }
-        }
+      // Keep the version pinned in .secrets-lock too, which frozen reads need
+      const pinned = this.isPerKey(serviceName) ? undefined : this.secretLock.get(this.environment, serviceName);
+      const pinnedIndex = pinned ? versionsToDestroy.findIndex(v => versionNumber(v.name) === pinned) : -1;
+      if (pinnedIndex !== -1) {
+        this.logger.info(`📌 Keeping version ${pinned} of ${secretName}, which is pinned in the lock file`);
+        versionsToDestroy.splice(pinnedIndex, 1);
+      }
+
+      const mode = deletePolicy.mode || "destroy";
+      if (mode === "destroy") {
+        return { cleaned: await this.destroyVersions(secretName, versionsToDestroy) };
       }
+      return { cleaned: await this.disableVersions(secretName, versions, versionsToDestroy, mode, deletePolicy.graceDays) };
 
     } catch (error) {
-      console.warn(`Warning: Could not clean up versions for ${secretName}: ${(error as Error).message}`);
+      const warning = `Could not clean up versions for ${secretName}: ${(error as Error).message}`;
+      this.logger.warn(`Warning: ${warning}`);
+      return { cleaned: 0, warning };
     }
   }
 
-  /**
-   * Manually clean up old versions for a specific service or all services
-   */
-  async cleanupVersions(serviceName: string): Promise<void> {
-    if (serviceName === "all") {
-      const services = this.configManager.getServiceNames();
-      for (const service of services) {
-        const secretName = this.getSecretName(service);
-        await this.cleanupSecretVersions(secretName);
+  private async destroyVersions(secretName: string, versionsToDestroy: SecretVersion[]): Promise<number> {
+    if (this.dryRun) {
+      if (versionsToDestroy.length === 0) {
+        this.logger.info(`🔎 [dry-run] No versions of ${secretName} would be destroyed`);
+      } else {
+        this.logger.info(`🔎 [dry-run] Would destroy ${versionsToDestroy.length} old version(s) of ${secretName}:`);
+        versionsToDestroy.forEach(version => this.logger.info(`   ${this.describeSecretVersion(version)}`));
       }
-      console.log(`✅ Completed cleanup for all services in ${this.environment}`);
-      return;
+      return versionsToDestroy.length;
     }
-    
-    const secretName = this.getSecretName(serviceName);
-    await this.cleanupSecretVersions(secretName);
-    console.log(`✅ Completed cleanup for ${serviceName} in ${this.environment}`);
-  }
 
-  async downloadEnv(serviceName: string): Promise<void> {
-    if (serviceName === "all") {
-      const services = this.configManager.getServiceNames();
-      for (const service of services) {
-        await this.downloadSingleEnv(service);
+    const destroyed: string[] = [];
+
+    // Destroy the marked versions
+    if (versionsToDestroy.length > 0) {
+      this.logger.info(`🧹 Cleaning up ${versionsToDestroy.length} old version(s) of ${secretName}`);
+      
+      for (const version of versionsToDestroy) {
+        if (version.name) {
+          try {
+            await this.backend.destroySecretVersion({
+              name: version.name
+            });
+            destroyed.push(version.name);
+            this.logger.info(`   Destroyed version: ${version.name.split('/').pop()}`);
+          } catch (error) {
+            this.logger.warn(`   Warning: Could not destroy version ${version.name}: ${(error as Error).message}`);
+          }
+        }
+      }
+
+      if (destroyed.length > 0) {
+        const secretPath = `projects/${this.projectId}/secrets/${secretName}`;
+        const [secret] = await this.backend.getSecret({ name: secretPath });
+        const annotations: Record<string, string> = { ...(secret.annotations || {}) };
+        destroyed.forEach(name => delete annotations[provenanceAnnotation(versionNumber(name))]);
+        await this.updateAnnotations(secretPath, secret.annotations || {}, annotations);
       }
-      return;
     }
-    
-    await this.downloadSingleEnv(serviceName);
+    return destroyed.length;
   }
 
-  private async downloadSingleEnv(serviceName: string): Promise<void> {
-    const envPath = this.getEnvPath(serviceName);
-    const secretName = this.getSecretName(serviceName);
+  /**
+   * Two-phase cleanup: expired versions are disabled first, and with "disable-then-destroy" only
+   * destroyed once they have been disabled for the grace period. Secret Manager does not record
+   * when a version was disabled, so the time is kept in a `msm-disabled-{version}` secret annotation.
+   */
+  private async disableVersions(
+    secretName: string,
+    versions: SecretVersion[],
+    expiredVersions: SecretVersion[],
+    mode: "disable" | "disable-then-destroy",
+    graceDays: number = DEFAULT_GRACE_DAYS
+  ): Promise<number> {
     const secretPath = `projects/${this.projectId}/secrets/${secretName}`;
-    
-    try {
-      // Get the latest version of the env file secret
-      const [version] = await this.client.accessSecretVersion({
-        name: `${secretPath}/versions/latest`,
+    const [secret] = await this.backend.getSecret({ name: secretPath });
+    const annotations: Record<string, string> = { ...(secret.annotations || {}) };
+    const now = new Date();
+    const graceCutoff = now.getTime() - graceDays * 24 * 60 * 60 * 1000;
+
+    const toDisable = expiredVersions.filter(version => version.state === "ENABLED");
+    const toDestroy: SecretVersion[] = [];
+    const awaitingGrace: SecretVersion[] = [];
+
+    if (mode === "disable-then-destroy") {
+      expiredVersions.filter(version => version.state === "DISABLED").forEach(version => {
+        const disabledAt = annotations[disabledAtAnnotation(version.name)];
+        if (disabledAt && Date.parse(disabledAt) <= graceCutoff) {
+          toDestroy.push(version);
+        } else {
+          awaitingGrace.push(version);
+        }
       });
-      
-      if (!version.payload || !version.payload.data) {
-        throw new Error(`No data found for secret ${secretName}`);
+    }
+
+    if (this.dryRun) {
+      if (toDisable.length === 0 && toDestroy.length === 0) {
+        this.logger.info(`🔎 [dry-run] No versions of ${secretName} would be disabled or destroyed`);
       }
-      
-      // Ensure the directory exists
-      const envDir = path.dirname(envPath);
-      if (!fs.existsSync(envDir)) {
-        fs.mkdirSync(envDir, { recursive: true });
+      if (toDisable.length > 0) {
+        this.logger.info(`🔎 [dry-run] Would disable ${toDisable.length} old version(s) of ${secretName}:`);
+        toDisable.forEach(version => this.logger.info(`   ${this.describeSecretVersion(version)}`));
       }
-      
-      // Write the entire env file content
-      const envContent = Buffer.from(version.payload.data as Buffer).toString();
-      fs.writeFileSync(envPath, envContent);
-      
-      console.log(
-        `✅ Environment file successfully downloaded to ${envPath} for ${this.environment}`
-      );
-    } catch (error) {
-      console.error(`❌ Error: Could not download environment file: ${(error as Error).message}`);
-      throw error;
+      if (toDestroy.length > 0) {
+        this.logger.info(`🔎 [dry-run] Would destroy ${toDestroy.length} version(s) of ${secretName} disabled for over ${graceDays} day(s):`);
+        toDestroy.forEach(version => this.logger.info(`   ${this.describeSecretVersion(version)}`));
+      }
+      return toDisable.length + toDestroy.length;
     }
-  }
 
-  async setEnv(serviceName: string): Promise<void> {
-    if (serviceName === "all") {
-      const services = this.configManager.getServiceNames();
-      for (const service of services) {
-        await this.setSingleEnv(service);
+    let cleaned = 0;
+
+    if (toDisable.length > 0 || toDestroy.length > 0) {
+      this.logger.info(`🧹 Cleaning up old versions of ${secretName}`);
+    }
+
+    for (const version of toDisable) {
+      try {
+        await this.backend.disableSecretVersion({ name: version.name! });
+        annotations[disabledAtAnnotation(version.name)] = now.toISOString();
+        cleaned++;
+        this.logger.info(`   Disabled version: ${versionNumber(version.name)}`);
+      } catch (error) {
+        this.logger.warn(`   Warning: Could not disable version ${version.name}: ${(error as Error).message}`);
       }
-      return;
     }
-    
-    await this.setSingleEnv(serviceName);
+
+    for (const version of toDestroy) {
+      try {
+        await this.backend.destroySecretVersion({ name: version.name! });
+        delete annotations[disabledAtAnnotation(version.name)];
+        delete annotations[provenanceAnnotation(versionNumber(version.name))];
+        cleaned++;
+        this.logger.info(`   Destroyed version: ${versionNumber(version.name)} (disabled for over ${graceDays} day(s))`);
+      } catch (error) {
+        this.logger.warn(`   Warning: Could not destroy version ${version.name}: ${(error as Error).message}`);
+      }
+    }
+
+    // Versions disabled outside of cleanup start their grace period now
+    awaitingGrace.forEach(version => {
+      annotations[disabledAtAnnotation(version.name)] = annotations[disabledAtAnnotation(version.name)] || now.toISOString();
+    });
+
+    // Forget versions that were re-enabled or destroyed by other means
+    const disabledVersions = new Set(
+      versions.filter(version => version.state === "DISABLED").map(version => disabledAtAnnotation(version.name))
+    );
+    toDisable.forEach(version => disabledVersions.add(disabledAtAnnotation(version.name)));
+    toDestroy.forEach(version => disabledVersions.delete(disabledAtAnnotation(version.name)));
+    Object.keys(annotations)
+      .filter(key => key.startsWith(DISABLED_AT_ANNOTATION_PREFIX) && !disabledVersions.has(key))
+      .forEach(key => delete annotations[key]);
+
+    await this.updateAnnotations(secretPath, secret.annotations || {}, annotations);
+    return cleaned;
   }
 
-  private async setSingleEnv(serviceName: string): Promise<void> {
-    const secretName = this.getSecretName(serviceName);
-    const targetPath = this.getTargetPath(serviceName);
-    const secretPath = `projects/${this.projectId}/secrets/${secretName}`;
-    
+  /**
+   * Records who made a new version, from where and why. A failure here does not fail the
+   * upload, which has already happened.
+   */
+  private async recordProvenance(secretPath: string, versionName?: string | null, message?: string): Promise<void> {
     try {
-      // Get the latest version of the env file secret
-      const [version] = await this.client.accessSecretVersion({
-        name: `${secretPath}/versions/latest`,
-      });
-      
-      if (!version.payload || !version.payload.data) {
-        throw new Error(`No data found for secret ${secretName}`);
+      if (!this.provenance) {
+        // Application Default Credentials name their key file in GOOGLE_APPLICATION_CREDENTIALS, if any
+        const credentialsPath = this.backendConfig.type === "gcp" && this.overrideSa
+          ? process.env.GOOGLE_APPLICATION_CREDENTIALS
+          : this.credentialsPath;
+        this.provenance = collectProvenance(resolveIdentity(credentialsPath));
       }
-      
-      // Ensure the target directory exists
-      const targetDir = path.dirname(targetPath);
-      if (!fs.existsSync(targetDir)) {
-        fs.mkdirSync(targetDir, { recursive: true });
-      }
-      
-      // Write the entire env file content to the target path
-      const envContent = Buffer.from(version.payload.data as Buffer).toString();
-      fs.writeFileSync(targetPath, envContent);
-      
-      console.log(
-        `✅ Environment file successfully set in ${targetPath} for ${this.environment}`
+
+      const [secret] = await this.backend.getSecret({ name: secretPath });
+      const annotations = addProvenanceAnnotation(
+        secret.annotations || {},
+        versionNumber(versionName),
+        { ...this.provenance, message }
       );
+      await this.updateAnnotations(secretPath, secret.annotations || {}, annotations);
     } catch (error) {
-      console.error(`❌ Error: Could not set environment file: ${(error as Error).message}`);
-      throw error;
+      this.logger.warn(`Warning: Could not record provenance for ${versionName}: ${(error as Error).message}`);
     }
   }
 
-  async peekEnv(serviceName: string): Promise<void> {
-    if (serviceName === "all") {
-      const services = this.configManager.getServiceNames();
-      for (const service of services) {
-        await this.peekSingleEnv(service);
-      }
-      return;
-    }
-    
-    await this.peekSingleEnv(serviceName);
+  /**
+   * Reads the provenance recorded for a version of a secret
+   */
+  private async getProvenance(secretName: string, version: string): Promise<VersionProvenance | undefined> {
+    const annotations = await this.readAnnotations(`projects/${this.projectId}/secrets/${secretName}`);
+    return parseProvenance(annotations[provenanceAnnotation(version)]);
   }
 
-  private async peekSingleEnv(serviceName: string): Promise<void> {
-    const secretName = this.getSecretName(serviceName);
-    const secretPath = `projects/${this.projectId}/secrets/${secretName}`;
-    
-    console.log(`\n📝 Environment file for ${serviceName} in ${this.environment}:\n`);
-    
+  /**
+   * Reads a secret's annotations for display. Readers with only secretAccessor cannot read
+   * secret metadata, so this is best effort.
+   */
+  private async readAnnotations(secretPath: string): Promise<Record<string, string>> {
     try {
-      // Get the latest version of the env file secret
-      const [version] = await this.client.accessSecretVersion({
-        name: `${secretPath}/versions/latest`,
-      });
-      
-      if (!version.payload || !version.payload.data) {
-        throw new Error(`No data found for secret ${secretName}`);
-      }
-      
-      // Display the entire env file content
-      const envContent = Buffer.from(version.payload.data as Buffer).toString();
-      console.log(envContent);
-    } catch (error) {
-      if ((error as Error).message.includes('NOT_FOUND')) {
-        console.log(`No environment file found for ${serviceName} in ${this.environment}.`);
-      } else {
-        console.error(`❌ Error: ${(error as Error).message}`);
-      }
+      const [secret] = await this.backend.getSecret({ name: secretPath });
+      return secret.annotations || {};
+    } catch {
+      return {};
     }
-    
-    console.log(); // Add empty line at the end
   }
-} 
\ No newline at end of file
+
+  /**
+   * Writes the secret's annotations when they differ from what was read
+   */
+  private async updateAnnotations(
+    secretPath: string,
+    previous: Record<string, string>,
+    annotations: Record<string, string>
+  ): Promise<void> {
+    const changed = Object.keys({ ...previous, ...annotations }).some(key => previous[key] !== annotations[key]);
+    if (!changed) {
+      return;
+    }
+
+    await this.backend.updateSecret({
+      secret: { name: secretPath, annotations },
+      updateMask: { paths: ["annotations"] },
+    });
+  }
+
+  private describeSecretVersion(version: SecretVersion): string {
+    const created = version.createTime?.seconds
+      ? new Date(Number(version.createTime.seconds) * 1000).toISOString()
+      : "unknown";
+    return `Version ${versionNumber(version.name)} (created ${created}, ${version.state})`;
+  }
+
+  /**
+   * Replication, CMEK and labels for the service's secrets, from the merged secret settings
+   */
+  private buildSecretSpec(serviceName: string): Secret {
+    const { replicationLocations, kmsKeyName, labels } = this.configManager.getSecretSettings(serviceName, this.environment);
+
+    const encryptionFor = (location?: string) => kmsKeyName
+      ? { customerManagedEncryption: { kmsKeyName: location ? kmsKeyName.replace(/\{location\}/g, location) : kmsKeyName } }
+      : {};
+
+    const replication = replicationLocations
+      ? { userManaged: { replicas: replicationLocations.map(location => ({ location, ...encryptionFor(location) })) } }
+      : { automatic: encryptionFor() };
+
+    const resolvedLabels = Object.fromEntries(
+      Object.entries(labels || {}).map(([key, value]) => [
+        key,
+        value.replace(/\{service\}/g, serviceName).replace(/\{env\}/g, this.environment).toLowerCase()
+      ])
+    );
+
+    return Object.keys(resolvedLabels).length > 0 ? { replication, labels: resolvedLabels } : { replication };
+  }
+
+  /**
+   * Applies the configured labels to a service's existing secrets and reports secrets whose
+   * replication or KMS key differs from the configuration. Those cannot be changed after a
+   * secret is created, so they make reconcile fail.
+   */
+  async reconcileSecrets(serviceName: string): Promise<ServiceResult[]> {
+    return this.runForServices(serviceName, "Reconcile", async service => {
+      const desired = this.buildSecretSpec(service);
+      const mismatches: string[] = [];
+      let relabeled = 0;
+      let missing = 0;
+
+      for (const secretName of await this.getServiceSecretNames(service)) {
+        const secretPath = `projects/${this.projectId}/secrets/${secretName}`;
+
+        let secret: Secret;
+        try {
+          [secret] = await this.backend.getSecret({ name: secretPath });
+        } catch (error) {
+          if (!(error as Error).message.includes('NOT_FOUND')) {
+            throw error;
+          }
+          missing++;
+          continue;
+        }
+
+        const currentLabels = secret.labels || {};
+        const labels = { ...currentLabels, ...desired.labels };
+        const changedLabels = Object.keys(labels).filter(key => currentLabels[key] !== labels[key]);
+
+        if (changedLabels.length > 0) {
+          const summary = changedLabels.map(key => `${key}=${labels[key]}`).join(", ");
+          if (this.dryRun) {
+            this.logger.info(`🔎 [dry-run] Would set labels on ${secretName}: ${summary}`);
+          } else {
+            await this.backend.updateSecret({
+              secret: { name: secretPath, labels },
+              updateMask: { paths: ["labels"] },
+            });
+            this.logger.info(`🏷️  Set labels on ${secretName}: ${summary}`);
+          }
+          relabeled++;
+        }
+
+        const actualReplication = describeReplication(secret.replication);
+        const desiredReplication = describeReplication(desired.replication);
+        if (actualReplication !== desiredReplication) {
+          mismatches.push(`${secretName} uses ${actualReplication}, configuration requires ${desiredReplication}`);
+        }
+      }
+
+      if (mismatches.length > 0) {
+        throw new Error(
+          `Replication cannot be changed after a secret is created; recreate these secrets: ${mismatches.join("; ")}`
+        );
+      }
+
+      const details = [relabeled > 0 ? `${relabeled} secret(s) relabeled` : "in sync"];
+      if (missing > 0) {
+        details.push(`${missing} secret(s) not created yet`);
+      }
+      return { status: "succeeded", action: "reconciled", secretName: this.getFileSecretName(service), detail: details.join(", ") };
+    }, { singleSummary: true });
+  }
+
+  /**
+   * Re-enables a version disabled by cleanup, making it readable again
+   */
+  async enableVersion(serviceName: string, version: string): Promise<ServiceResult> {
+    if (serviceName === "all") {
+      throw new Error("Enabling a version must target a single service");
+    }
+
+    this.assertFileMode(serviceName, "Enabling a version");
+
+    if (!/^\d+$/.test(version)) {
+      throw new Error(`Invalid version '${version}': a version number is required`);
+    }
+
+    const secretName = this.getSecretName(serviceName);
+    const secretPath = `projects/${this.projectId}/secrets/${secretName}`;
+    const versionPath = `${secretPath}/versions/${version}`;
+    const result: ServiceResult = {
+      service: serviceName,
+      environment: this.environment,
+      status: "succeeded",
+      action: "enabled",
+      secretName,
+      version,
+    };
+
+    if (this.dryRun) {
+      this.logger.info(`🔎 [dry-run] Would enable version ${version} of ${secretName}`);
+      return result;
+    }
+
+    await this.backend.enableSecretVersion({ name: versionPath });
+
+    const [secret] = await this.backend.getSecret({ name: secretPath });
+    const annotations: Record<string, string> = { ...(secret.annotations || {}) };
+    delete annotations[disabledAtAnnotation(versionPath)];
+    await this.updateAnnotations(secretPath, secret.annotations || {}, annotations);
+
+    this.logger.info(`✅ Enabled version ${version} of ${serviceName} in ${this.environment}`);
+    return result;
+  }
+
+  /**
+   * Manually clean up old versions for a specific service or all services
+   */
+  async cleanupVersions(serviceName: string): Promise<ServiceResult[]> {
+    const results = await this.runForServices(serviceName, "Cleanup", async service => {
+      let cleaned = 0;
+      const warnings: string[] = [];
+      for (const secretName of await this.getServiceSecretNames(service)) {
+        const result = await this.cleanupSecretVersions(service, secretName);
+        cleaned += result.cleaned;
+        if (result.warning) {
+          warnings.push(result.warning);
+        }
+      }
+      return {
+        status: "succeeded",
+        action: "cleaned",
+        secretName: this.getFileSecretName(service),
+        detail: `${cleaned} version(s) cleaned up`,
+        warnings: warnings.length > 0 ? warnings : undefined,
+      };
+    });
+
+    this.logger.info(`✅ Completed cleanup for ${serviceName === "all" ? "all services" : serviceName} in ${this.environment}`);
+    return results;
+  }
+
+  /**
+   * Re-publishes the payload of a previous version as the new latest version, after checking it
+   * against the service's schema unless forced
+   */
+  async rollbackEnv(
+    serviceName: string,
+    toVersion: string,
+    options: { message?: string; force?: boolean } = {}
+  ): Promise<ServiceResult> {
+    if (serviceName === "all") {
+      throw new Error("Rollback must target a single service");
+    }
+
+    this.assertFileMode(serviceName, "Rollback");
+
+    if (!/^\d+$/.test(toVersion)) {
+      throw new Error(`Invalid version '${toVersion}': rollback requires a version number`);
+    }
+
+    const secretName = this.getSecretName(serviceName);
+    const secretPath = `projects/${this.projectId}/secrets/${secretName}`;
+
+    let envContent: string;
+    try {
+      envContent = await this.accessSecretContent(secretName, toVersion);
+    } catch (error) {
+      throw new Error(
+        `Could not read version ${toVersion} of ${secretName}: ${(error as Error).message}. Only enabled versions can be restored (re-enable a disabled one with --enable-version).`
+      );
+    }
+
+    if (!options.force) {
+      try {
+        await this.assertMatchesSchema(serviceName, envContent);
+      } catch (error) {
+        throw new Error(
+          `Version ${toVersion}: ${(error as Error).message}. Roll back with --force to restore it anyway.`
+        );
+      }
+    }
+
+    const result: ServiceResult = {
+      service: serviceName,
+      environment: this.environment,
+      status: "succeeded",
+      action: "rolled-back",
+      secretName,
+      bytes: Buffer.byteLength(envContent),
+      detail: `restored version ${toVersion}`,
+    };
+
+    if (this.dryRun) {
+      this.logger.info(`🔎 [dry-run] Would re-publish version ${toVersion} of ${secretName} as a new latest version`);
+      return result;
+    }
+
+    const [version] = await this.backend.addSecretVersion({
+      parent: secretPath,
+      payload: this.encodePayload(envContent),
+    });
+    await this.recordProvenance(secretPath, version.name, options.message || `Rollback to version ${toVersion}`);
+
+    this.logger.info(
+      `⏪ ${serviceName} rolled back to version ${toVersion} in ${this.environment} as new version ${versionNumber(version.name)}`
+    );
+
+    // The restored version is now the newest, which the delete policy always keeps
+    const { warning } = await this.cleanupSecretVersions(serviceName, secretName);
+    return { ...result, version: versionNumber(version.name), warnings: warning ? [warning] : undefined };
+  }
+
+  /**
+   * Copies a service's env file from another environment into this one, applying the configured
+   * promotion rules. Shows the diff against this environment's latest version, then uploads the
+   * result as a new version once confirmed.
+   */
+  async promoteEnv(serviceName: string, fromEnvironment: Environment, options: PromoteOptions = {}): Promise<ServiceResult[]> {
+    if (fromEnvironment === this.environment) {
+      throw new Error(`Cannot promote ${this.environment} to itself`);
+    }
+
+    const source = this.getLocation(fromEnvironment);
+    // One at a time, so each diff is followed by its own confirmation
+    return this.runForServices(
+      serviceName,
+      "Promote",
+      service => this.promoteSingleEnv(service, source, options),
+      { concurrency: 1, singleSummary: true }
+    );
+  }
+
+  private async promoteSingleEnv(
+    serviceName: string,
+    source: SecretLocation,
+    options: PromoteOptions
+  ): Promise<ServiceRunOutcome> {
+    this.assertFileMode(serviceName, "Promotion");
+
+    const secretName = this.getSecretName(serviceName);
+    const sourceVersion = await this.readSecretVersion(secretName, "latest", source);
+
+    let targetContent = "";
+    try {
+      targetContent = await this.accessSecretContent(secretName);
+    } catch (error) {
+      if (!(error as Error).message.includes('NOT_FOUND')) {
+        throw error;
+      }
+    }
+
+    const promoted = applyPromotionRules(
+      sourceVersion.content,
+      targetContent,
+      this.configManager.getPromotionRules(serviceName),
+      source.environment,
+      this.environment
+    );
+    const diff = diffEnv(promoted.content, targetContent);
+    const origin = `${source.environment} version ${sourceVersion.version}`;
+
+    this.logger.info(`\n🚀 Promoting ${serviceName} from ${origin} to ${this.environment}:\n`);
+    if (promoted.excluded.length > 0) {
+      this.logger.info(`  Excluded: ${promoted.excluded.join(", ")}`);
+    }
+    if (promoted.kept.length > 0) {
+      this.logger.info(`  Kept ${this.environment} values: ${promoted.kept.join(", ")}`);
+    }
+    if (promoted.rewritten.length > 0) {
+      this.logger.info(`  Rewritten: ${promoted.rewritten.join(", ")}`);
+    }
+
+    if (!hasChanges(diff)) {
+      this.logger.info(`  No changes, ${this.environment} already matches\n`);
+      return { status: "skipped", action: "unchanged", secretName, detail: "unchanged" };
+    }
+
+    formatEnvDiff(diff, promoted.content, targetContent, options.showValues).forEach(line => this.logger.info(line));
+    this.logger.info(
+      `\n  ${diff.added.length} added, ${diff.removed.length} removed, ${diff.changed.length} changed, ${diff.unchanged.length} unchanged\n`
+    );
+
+    if (!this.dryRun && options.confirm && !(await options.confirm(`Promote ${serviceName} to ${this.environment}?`))) {
+      return { status: "skipped", secretName, detail: "cancelled" };
+    }
+
+    await this.assertMatchesSchema(serviceName, promoted.content);
+
+    // Already compared with latest above, so there is no need to compare again
+    const { version, warnings } = await this.uploadSecret(serviceName, secretName, promoted.content, {
+      force: true,
+      message: options.message || `Promoted from ${origin}`,
+    });
+
+    if (!this.dryRun) {
+      this.logger.info(`✅ ${serviceName} promoted from ${origin} to ${this.environment}`);
+    }
+    return {
+      status: "succeeded",
+      action: "promoted",
+      secretName,
+      version,
+      bytes: Buffer.byteLength(promoted.content),
+      detail: `from ${origin}`,
+      warnings,
+    };
+  }
+
+  /**
+   * Pins each service's current latest version in .secrets-lock, for reading later with frozen
+   */
+  async lockVersions(serviceName: string): Promise<ServiceResult[]> {
+    return this.runForServices(serviceName, "Lock", async service => {
+      if (this.isPerKey(service)) {
+        return { status: "skipped", detail: "per-key services have no single version to pin" };
+      }
+
+      const secretName = this.getSecretName(service);
+      const [latest] = await this.backend.accessSecretVersion({
+        name: `projects/${this.projectId}/secrets/${secretName}/versions/latest`,
+      });
+      const version = versionNumber(latest.name);
+      if (!version) {
+        throw new Error(`Could not resolve the latest version of ${secretName}`);
+      }
+
+      const pinned = this.secretLock.get(this.environment, service);
+      if (pinned === version) {
+        return { status: "succeeded", action: "locked", secretName, version, detail: `unchanged at version ${version}` };
+      }
+
+      if (this.dryRun) {
+        this.logger.info(`🔎 [dry-run] Would pin ${service} in ${this.environment} to version ${version}`);
+      } else {
+        this.secretLock.set(this.environment, service, version);
+      }
+      return {
+        status: "succeeded",
+        action: "locked",
+        secretName,
+        version,
+        detail: pinned ? `version ${pinned} -> ${version}` : `pinned version ${version}`,
+      };
+    }, { singleSummary: true });
+  }
+
+  /**
+   * Replaces frozen with the version pinned in .secrets-lock
+   */
+  private resolveReadOptions<T extends SecretReadOptions>(serviceName: string, options: T): T {
+    if (!options.frozen) {
+      return options;
+    }
+
+    if (this.isPerKey(serviceName)) {
+      throw new Error(`Per-key service '${serviceName}' cannot be pinned, so it cannot be read frozen`);
+    }
+    return { ...options, version: this.secretLock.require(this.environment, serviceName) };
+  }
+
+  /**
+   * Downloads env files, merging in edits made to the local file since the last sync, and with
+   * set, writes each service's target files right after its download.
+   * Downloads run concurrently, but resolveConflict is called for one service at a time so prompts do not interleave.
+   */
+  async downloadEnv(serviceName: string, options: DownloadOptions = {}): Promise<ServiceResult[]> {
+    const promptLock = createLock();
+    return this.runForServices(
+      serviceName,
+      "Download",
+      async service => {
+        const readOptions = this.resolveReadOptions(service, options);
+        const downloaded = await this.downloadSingleEnv(service, readOptions, promptLock);
+        if (!options.set) {
+          return downloaded;
+        }
+
+        const set = await this.setSingleEnv(service, readOptions);
+        if (set.status === "skipped") {
+          return downloaded;
+        }
+        return { ...downloaded, detail: [downloaded.detail, set.detail ? `set ${set.detail}` : "set"].filter(Boolean).join(", ") };
+      }
+    );
+  }
+
+  private async downloadSingleEnv(
+    serviceName: string,
+    options: DownloadOptions,
+    promptLock: <T>(task: () => Promise<T>) => Promise<T>
+  ): Promise<ServiceRunOutcome> {
+    const envPath = this.getEnvPath(serviceName);
+    
+    try {
+      // Get the requested version (latest by default) of the env file secret
+      const { version, content: remoteContent } = await this.readServiceVersion(serviceName, options);
+      const merged = await this.mergeLocalChanges(serviceName, envPath, remoteContent, version, options, promptLock);
+      const envContent = merged ? merged.content : remoteContent;
+      const outcome: ServiceRunOutcome = {
+        status: "succeeded",
+        action: merged ? "merged" : "downloaded",
+        secretName: this.getFileSecretName(serviceName),
+        version,
+        bytes: Buffer.byteLength(envContent),
+        detail: merged?.detail,
+      };
+
+      if (this.dryRun) {
+        if (merged) {
+          this.logger.info(`🔎 [dry-run] Would merge ${serviceName} in ${this.environment} into ${envPath}: ${merged.detail}`);
+        } else {
+          this.reportDryRunWrite(envPath, serviceName);
+        }
+        return outcome;
+      }
+      
+      // Ensure the directory exists
+      const envDir = path.dirname(envPath);
+      if (!fs.existsSync(envDir)) {
+        fs.mkdirSync(envDir, { recursive: true });
+      }
+      
+      // Write the entire env file content
+      fs.writeFileSync(envPath, envContent);
+      // A merged file is based on the downloaded version, so that is what uploads compare against
+      this.syncState.set(this.environment, serviceName, { version, checksum: this.syncChecksum(serviceName, remoteContent) });
+      
+      if (merged) {
+        this.logger.info(
+          `🔀 Merged ${this.environment}${this.describeVersion(options)} into ${envPath}: ${merged.detail}`
+        );
+        // The file is written so the conflicts can be resolved in it, but the download did not finish
+        if (merged.unresolved.length > 0) {
+          throw new Error(
+            `Conflicts in ${merged.unresolved.join(", ")} were written to ${envPath} with conflict markers. Resolve them before uploading.`
+          );
+        }
+      } else {
+        this.logger.info(
+          `✅ Environment file successfully downloaded to ${envPath} for ${this.environment}${this.describeVersion(options)}`
+        );
+      }
+      return outcome;
+    } catch (error) {
+      this.logger.error(`❌ Error: Could not download environment file: ${(error as Error).message}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Merges edits made to the local env file since the last sync into the downloaded content.
+   * Returns undefined when the local file has nothing to keep and can simply be replaced.
+   */
+  private async mergeLocalChanges(
+    serviceName: string,
+    envPath: string,
+    remoteContent: string,
+    remoteVersion: string | undefined,
+    options: DownloadOptions,
+    promptLock: <T>(task: () => Promise<T>) => Promise<T>
+  ): Promise<{ content: string; detail: string; unresolved: string[] } | undefined> {
+    if (!fs.existsSync(envPath)) {
+      return undefined;
+    }
+
+    const localContent = fs.readFileSync(envPath, "utf8");
+    const localChecksum = this.syncChecksum(serviceName, localContent);
+    const synced = this.syncState.get(this.environment, serviceName);
+    if (localChecksum === synced?.checksum || localChecksum === this.syncChecksum(serviceName, remoteContent)) {
+      return undefined;
+    }
+
+    if (hasConflictMarkers(localContent)) {
+      throw new Error(`${envPath} has unresolved conflict markers. Resolve them before downloading again.`);
+    }
+
+    // Without a base there is no telling which side changed a key, so only an explicit strategy merges
+    const baseContent = await this.readSyncBase(serviceName, synced);
+    if (baseContent === undefined) {
+      if (!options.strategy) {
+        throw new Error(
+          `${envPath} has local changes, but the version it was last synced with is unknown, so they cannot be merged. ` +
+          `Download with --strategy ours, theirs or merge to choose how keys that differ from ${this.environment} are resolved.`
+        );
+      }
+      this.logger.warn(
+        `⚠️  The version ${envPath} was last synced with is unknown, so every key that differs from ${this.environment} is treated as changed on both sides`
+      );
+    }
+
+    const merge = mergeEnv(baseContent, localContent, remoteContent);
+    if (merge.localChanges.length === 0 && merge.conflicts.length === 0) {
+      return undefined;
+    }
+
+    const strategy = options.strategy || "merge";
+    const resolutions: Record<string, "ours" | "theirs"> = {};
+    const { resolveConflict } = options;
+    if (strategy !== "merge") {
+      merge.conflicts.forEach(conflict => { resolutions[conflict.key] = strategy; });
+    } else if (resolveConflict && !this.dryRun && merge.conflicts.length > 0) {
+      // A service's conflicts are asked about together, while other services keep downloading
+      await promptLock(async () => {
+        for (const conflict of merge.conflicts) {
+          resolutions[conflict.key] = await resolveConflict(conflict, serviceName);
+        }
+      });
+    }
+
+    const unresolved = merge.conflicts.map(conflict => conflict.key).filter(key => !resolutions[key]);
+    const remoteLabel = `${this.environment}${remoteVersion ? ` version ${remoteVersion}` : ""}`;
+    const details = [
+      merge.localChanges.length > 0 ? `kept local changes to ${merge.localChanges.join(", ")}` : "",
+      merge.conflicts.length > unresolved.length ? `resolved ${merge.conflicts.length - unresolved.length} conflict(s)` : "",
+      unresolved.length > 0 ? `${unresolved.length} conflict(s) marked` : "",
+    ].filter(Boolean);
+
+    return {
+      content: renderMerge(merge, resolutions, remoteLabel),
+      detail: details.join(", "),
+      unresolved,
+    };
+  }
+
+  /**
+   * Content of the version the local env file was last synced with. Undefined for per-key
+   * services, which have no single version, and when that version can no longer be read.
+   */
+  private async readSyncBase(serviceName: string, synced?: SyncStateEntry): Promise<string | undefined> {
+    if (!synced?.version || this.isPerKey(serviceName)) {
+      return undefined;
+    }
+
+    try {
+      const { content } = await this.readSecretVersion(this.getSecretName(serviceName), synced.version);
+      return this.syncChecksum(serviceName, content) === synced.checksum ? content : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  async setEnv(serviceName: string, options: SecretReadOptions = {}): Promise<ServiceResult[]> {
+    return this.runForServices(serviceName, "Set", service =>
+      this.setSingleEnv(service, this.resolveReadOptions(service, options))
+    );
+  }
+
+  private async setSingleEnv(serviceName: string, options: SecretReadOptions = {}): Promise<ServiceRunOutcome> {
+    if (serviceName === SHARED_LAYER_NAME) {
+      return { status: "skipped", detail: "merged into each service" };
+    }
+
+    const targets = this.getTargets(serviceName);
+    
+    try {
+      // Get the requested version (latest by default) of the env file secret
+      const { version, content: ownContent } = await this.readServiceVersion(serviceName, options);
+      const envContent = await resolveReferences(
+        serviceName,
+        await this.withSharedLayer(serviceName, ownContent, options),
+        service => this.readReferencedEnv(service, options)
+      );
+      // Format every target before writing any, so a formatting error leaves no partial output
+      const outputs = targets.map(target => ({ target, content: formatEnv(envContent, target) }));
+      const outcome: ServiceRunOutcome = {
+        status: "succeeded",
+        action: "set",
+        secretName: this.getFileSecretName(serviceName),
+        version,
+        bytes: Buffer.byteLength(envContent),
+        detail: targets.length > 1 ? `${targets.length} targets` : undefined,
+      };
+
+      if (this.dryRun) {
+        targets.forEach(target => this.reportDryRunWrite(target.path, serviceName));
+        return outcome;
+      }
+      
+      outputs.forEach(({ target, content }) => {
+        // Ensure the target directory exists
+        const targetDir = path.dirname(target.path);
+        if (!fs.existsSync(targetDir)) {
+          fs.mkdirSync(targetDir, { recursive: true });
+        }
+        
+        fs.writeFileSync(target.path, content);
+        
+        const format = target.format && target.format !== "dotenv" ? ` as ${target.format}` : "";
+        this.logger.info(
+          `✅ Environment file successfully set in ${target.path}${format} for ${this.environment}${this.describeVersion(options)}`
+        );
+      });
+      return outcome;
+    } catch (error) {
+      this.logger.error(`❌ Error: Could not set environment file: ${(error as Error).message}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Checks every service's local env file against its schema without uploading anything
+   */
+  async validateEnv(serviceName: string): Promise<ServiceResult[]> {
+    return this.runForServices(serviceName, "Validate", service => this.validateSingleEnv(service), {
+      singleSummary: true,
+    });
+  }
+
+  private async validateSingleEnv(serviceName: string): Promise<ServiceRunOutcome> {
+    const envPath = this.getEnvPath(serviceName);
+    if (!fs.existsSync(envPath)) {
+      throw new Error(`Environment file not found at ${envPath}`);
+    }
+
+    const schema = this.configManager.getSchema(serviceName);
+    if (!schema) {
+      return { status: "skipped", detail: "no schema" };
+    }
+
+    await this.assertMatchesSchema(serviceName, fs.readFileSync(envPath, "utf8"), { localFiles: true });
+    this.logger.info(`✅ ${serviceName} matches its schema in ${this.environment}`);
+    return { status: "succeeded", action: "validated", detail: `${Object.keys(schema).length} variables checked` };
+  }
+
+  /**
+   * Throws when env file content, as set would write it (over the shared layer, with references
+   * resolved), does not match the service's schema. The shared layer is checked on its own.
+   * With localFiles, the shared layer and referenced services come from their local env files,
+   * as they will be uploaded in the same run, and only files missing locally are read remotely.
+   */
+  private async assertMatchesSchema(
+    serviceName: string,
+    envContent: string,
+    options: { localFiles?: boolean } = {}
+  ): Promise<void> {
+    const schema = this.configManager.getSchema(serviceName);
+    if (!schema) {
+      return;
+    }
+
+    if (serviceName === SHARED_LAYER_NAME) {
+      assertValidEnv(envContent, schema, serviceName, this.environment);
+      return;
+    }
+
+    const localShared = options.localFiles && this.configManager.getSharedLayer()
+      ? this.readLocalEnv(SHARED_LAYER_NAME)
+      : undefined;
+    const layeredContent = localShared !== undefined
+      ? layerEnv(localShared, envContent, this.configManager.getServiceByName(serviceName)?.excludeShared || [])
+      : await this.withSharedLayer(serviceName, envContent, {}, "checked against its schema");
+    const effectiveContent = await resolveReferences(serviceName, layeredContent, service => {
+      const localContent = options.localFiles ? this.readLocalEnv(service) : undefined;
+      return localContent !== undefined ? Promise.resolve(parseEnv(localContent)) : this.readReferencedEnv(service, {});
+    });
+    assertValidEnv(effectiveContent, schema, serviceName, this.environment);
+  }
+
+  /**
+   * A configured service's local env file for this environment, or undefined when it does not exist
+   */
+  private readLocalEnv(serviceName: string): string | undefined {
+    if (!this.configManager.getServiceByName(serviceName)) {
+      return undefined;
+    }
+
+    const envPath = this.getEnvPath(serviceName);
+    return fs.existsSync(envPath) ? fs.readFileSync(envPath, "utf8") : undefined;
+  }
+
+  /**
+   * Merges a service's env file over the shared layer. --version applies to the service only;
+   * the shared layer is read at latest, or at its pinned version when frozen. `usage` says what
+   * the result is for in the warning shown when the shared layer was never uploaded.
+   */
+  private async withSharedLayer(
+    serviceName: string,
+    ownContent: string,
+    options: SecretReadOptions,
+    usage: string = "set"
+  ): Promise<string> {
+    if (!this.configManager.getSharedLayer()) {
+      return ownContent;
+    }
+
+    let sharedContent: string;
+    try {
+      ({ content: sharedContent } = await this.readServiceVersion(
+        SHARED_LAYER_NAME,
+        this.resolveReadOptions(SHARED_LAYER_NAME, { frozen: options.frozen })
+      ));
+    } catch (error) {
+      if (!(error as Error).message.includes('NOT_FOUND')) {
+        throw error;
+      }
+      this.logger.warn(`⚠️  The shared layer has not been uploaded to ${this.environment}, so ${serviceName} is ${usage} without it`);
+      return ownContent;
+    }
+
+    const excludedKeys = this.configManager.getServiceByName(serviceName)?.excludeShared || [];
+    return layerEnv(sharedContent, ownContent, excludedKeys);
+  }
+
+  /**
+   * Variables of a service referenced with ${ref:service.KEY}: its own env file, without the
+   * shared layer, at latest or its pinned version when frozen. Undefined for unknown services
+   * and services not uploaded to this environment, which leaves their references dangling.
+   */
+  private async readReferencedEnv(serviceName: string, options: SecretReadOptions): Promise<Record<string, string> | undefined> {
+    if (!this.configManager.getServiceByName(serviceName)) {
+      return undefined;
+    }
+
+    try {
+      const { content } = await this.readServiceVersion(
+        serviceName,
+        this.resolveReadOptions(serviceName, { frozen: options.frozen })
+      );
+      return parseEnv(content);
+    } catch (error) {
+      if ((error as Error).message.includes('NOT_FOUND')) {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  private reportDryRunWrite(filePath: string, serviceName: string): void {
+    const action = fs.existsSync(filePath) ? "overwrite" : "create";
+    this.logger.info(`🔎 [dry-run] Would ${action} ${filePath} for ${serviceName} in ${this.environment}`);
+  }
+
+  /**
+   * Prints env files one service at a time so their output does not interleave. A missing
+   * secret is reported and skipped; any other error fails the service.
+   */
+  async peekEnv(serviceName: string, options: SecretReadOptions = {}): Promise<ServiceResult[]> {
+    return this.runForServices(
+      serviceName,
+      "Peek",
+      service => this.peekSingleEnv(service, this.resolveReadOptions(service, options)),
+      { concurrency: 1, summaryOnFailure: true }
+    );
+  }
+
+  private async peekSingleEnv(serviceName: string, options: SecretReadOptions = {}): Promise<ServiceRunOutcome> {
+    this.logger.info(`\n📝 Environment file for ${serviceName} in ${this.environment}${this.describeVersion(options)}:\n`);
+    
+    try {
+      // Get the requested version (latest by default) of the env file secret
+      const { version, content: envContent } = await this.readServiceVersion(serviceName, options);
+      const secretName = this.getFileSecretName(serviceName);
+
+      if (secretName && version) {
+        const provenance = await this.getProvenance(secretName, version);
+        if (provenance) {
+          this.logger.info(`# Version ${version} uploaded ${formatProvenance(provenance)}\n`);
+        }
+      }
+
+      // Display the entire env file content
+      this.logger.info(envContent);
+      this.logger.info(""); // Add empty line at the end
+      return { status: "succeeded", action: "read", secretName, version, bytes: Buffer.byteLength(envContent) };
+    } catch (error) {
+      if (!(error as Error).message.includes('NOT_FOUND')) {
+        this.logger.error(`❌ Error: ${(error as Error).message}\n`);
+        throw error;
+      }
+
+      this.logger.info(`No environment file found for ${serviceName} in ${this.environment}.\n`);
+      return { status: "skipped", secretName: this.getFileSecretName(serviceName), detail: "not found" };
+    }
+  }
+
+  async historyEnv(serviceName: string): Promise<ServiceResult[]> {
+    return this.runForServices(serviceName, "History", service => this.historySingleEnv(service), {
+      concurrency: 1,
+      summaryOnFailure: true,
+    });
+  }
+
+  private async historySingleEnv(serviceName: string): Promise<ServiceRunOutcome> {
+    if (this.isPerKey(serviceName)) {
+      this.logger.info(`\nℹ️  Version history is not available for per-key service ${serviceName}\n`);
+      return { status: "skipped", detail: "per-key services have no version history" };
+    }
+
+    const secretName = this.getSecretName(serviceName);
+    const history = await this.getVersionHistory(serviceName);
+
+    this.logger.info(`\n📜 Version history for ${serviceName} in ${this.environment} (${secretName}):\n`);
+
+    const outcome: ServiceRunOutcome = {
+      status: "succeeded",
+      action: "read",
+      secretName,
+      version: history[0]?.version,
+      detail: `${history.length} version(s)`,
+    };
+
+    if (history.length === 0) {
+      this.logger.info("  No versions found\n");
+      return outcome;
+    }
+
+    this.logger.info(`  ${"VERSION".padEnd(9)}${"CREATED".padEnd(26)}${"STATE".padEnd(11)}${"KEYS CHANGED".padEnd(14)}PROVENANCE`);
+    history.forEach(entry => {
+      this.logger.info(
+        `  ${entry.version.padEnd(9)}${(entry.createTime?.toISOString() || "-").padEnd(26)}${entry.state.padEnd(11)}` +
+        `${String(entry.keysChanged ?? "n/a").padEnd(14)}${entry.provenance ? formatProvenance(entry.provenance) : "-"}`
+      );
+    });
+    this.logger.info("");
+    return outcome;
+  }
+
+  /**
+   * Lists every version of a service's secret, newest first, with the number of keys
+   * changed relative to the previous readable version
+   */
+  async getVersionHistory(serviceName: string): Promise<SecretVersionHistoryEntry[]> {
+    this.assertFileMode(serviceName, "Version history");
+    const secretName = this.getSecretName(serviceName);
+    const secretPath = `projects/${this.projectId}/secrets/${secretName}`;
+    const [versions] = await this.backend.listSecretVersions({
+      parent: secretPath,
+      pageSize: 100
+    });
+    const annotations = await this.readAnnotations(secretPath);
+
+    const entries: SecretVersionHistoryEntry[] = (versions || [])
+      .map(version => ({
+        version: versionNumber(version.name),
+        createTime: version.createTime?.seconds ? new Date(Number(version.createTime.seconds) * 1000) : undefined,
+        state: String(version.state || "STATE_UNSPECIFIED"),
+        provenance: parseProvenance(annotations[provenanceAnnotation(versionNumber(version.name))]),
+      }))
+      .sort((a, b) => Number(a.version) - Number(b.version));
+
+    // Walk oldest to newest so each readable version is compared with the one before it
+    let previousContent: string | undefined;
+    for (const entry of entries) {
+      if (entry.state !== "ENABLED") {
+        continue;
+      }
+
+      let content: string;
+      try {
+        content = await this.accessSecretContent(secretName, entry.version);
+      } catch (error) {
+        // e.g. encrypted with another key or corrupted; the next version is compared with the one before
+        this.logger.warn(`⚠️  Could not read version ${entry.version} of ${secretName}: ${(error as Error).message}`);
+        continue;
+      }
+      const diff = diffEnv(content, previousContent ?? "");
+      entry.keysChanged = diff.added.length + diff.removed.length + diff.changed.length;
+      previousContent = content;
+    }
+
+    return entries.reverse();
+  }
+
+  private describeVersion(options: SecretReadOptions): string {
+    return options.version && options.version !== "latest" ? ` (version ${options.version})` : "";
+  }
+
+  async diffEnv(serviceName: string, options: { showValues?: boolean } = {}): Promise<ServiceResult[]> {
+    return this.runForServices(serviceName, "Diff", service => this.diffSingleEnv(service, options), {
+      concurrency: 1,
+      summaryOnFailure: true,
+    });
+  }
+
+  /**
+   * Compares the local env file of a service against the latest remote version
+   */
+  private async diffSingleEnv(serviceName: string, options: { showValues?: boolean }): Promise<ServiceRunOutcome> {
+    const envPath = this.getEnvPath(serviceName);
+    if (!fs.existsSync(envPath)) {
+      throw new Error(`Environment file not found at ${envPath}`);
+    }
+
+    const localContent = fs.readFileSync(envPath, "utf8");
+
+    let remoteContent = "";
+    let remoteVersion: string | undefined;
+    try {
+      ({ version: remoteVersion, content: remoteContent } = await this.readServiceVersion(serviceName));
+    } catch (error) {
+      if (!(error as Error).message.includes('NOT_FOUND')) {
+        throw error;
+      }
+      this.logger.info(`\nℹ️  ${serviceName} does not exist yet in ${this.environment}; every key would be added.`);
+    }
+
+    const diff = diffEnv(localContent, remoteContent);
+
+    this.logger.info(`\n🔍 Diff for ${serviceName} in ${this.environment} (local ${envPath} vs remote latest):\n`);
+    if (!hasChanges(diff)) {
+      this.logger.info("  No changes");
+    } else {
+      formatEnvDiff(diff, localContent, remoteContent, options.showValues).forEach(line => this.logger.info(line));
+    }
+    const summary = `${diff.added.length} added, ${diff.removed.length} removed, ${diff.changed.length} changed, ${diff.unchanged.length} unchanged`;
+    this.logger.info(`\n  ${summary}\n`);
+    return {
+      status: "succeeded",
+      action: "read",
+      secretName: this.getFileSecretName(serviceName),
+      version: remoteVersion,
+      bytes: Buffer.byteLength(localContent),
+      detail: summary,
+    };
+  }
+
+
+  /**
+   * Reads a service's env file along with the version it came from (per-key services have no single version)
+   */
+  private async readServiceVersion(
+    serviceName: string,
+    options: SecretReadOptions = {}
+  ): Promise<{ version?: string; content: string }> {
+    if (!this.isPerKey(serviceName)) {
+      return this.readSecretVersion(this.getSecretName(serviceName), options.version);
+    }
+
+    if (options.version && options.version !== "latest") {
+      throw new Error(`Reading a specific version is not supported for per-key service '${serviceName}'`);
+    }
+
+    const keys: string[] = JSON.parse(await this.accessSecretContent(this.getKeyManifestName(serviceName)));
+    const values = await Promise.all(
+      keys.map(key => this.accessSecretContent(this.getKeySecretName(serviceName, key)))
+    );
+
+    return { content: serializeEnv(keys.map((key, index) => [key, values[index]])) };
+  }
+
+  /**
+   * Every secret holding part of a service's env file
+   */
+  private async getServiceSecretNames(serviceName: string): Promise<string[]> {
+    if (!this.isPerKey(serviceName)) {
+      return [this.getSecretName(serviceName)];
+    }
+
+    const manifestName = this.getKeyManifestName(serviceName);
+    let keys: string[] = [];
+    try {
+      keys = JSON.parse(await this.accessSecretContent(manifestName));
+    } catch (error) {
+      if (!(error as Error).message.includes('NOT_FOUND')) {
+        throw error;
+      }
+    }
+
+    return [...keys.map(key => this.getKeySecretName(serviceName, key)), manifestName];
+  }
+
+  /**
+   * Reads the payload of a secret version as a string
+   */
+  private async accessSecretContent(secretName: string, version: string = "latest"): Promise<string> {
+    return (await this.readSecretVersion(secretName, version)).content;
+  }
+
+  /**
+   * The project, backend and encryption key of an environment. Other environments are read with
+   * their own service account.
+   */
+  private getLocation(environment: Environment = this.environment): SecretLocation {
+    if (environment === this.environment) {
+      return { environment, projectId: this.projectId, backend: this.backend, encryption: this.encryption };
+    }
+
+    const projectId = this.configManager.getProjectId(environment);
+    const encryptionConfig = this.configManager.getEncryptionConfig(environment);
+    return {
+      environment,
+      projectId,
+      backend: createSecretBackend(this.backendConfig, projectId, this.resolveCredentialsPath(environment)),
+      encryption: encryptionConfig ? new EnvelopeEncryption(encryptionConfig) : undefined,
+    };
+  }
+
+  /**
+   * Reads the payload of a secret version along with its version number, which resolves "latest"
+   */
+  private async readSecretVersion(
+    secretName: string,
+    version: string = "latest",
+    location: SecretLocation = this.getLocation()
+  ): Promise<{ version: string; content: string }> {
+    const [secretVersion] = await location.backend.accessSecretVersion({
+      name: `projects/${location.projectId}/secrets/${secretName}/versions/${version}`,
+    });
+
+    if (!secretVersion.payload || !secretVersion.payload.data) {
+      throw new Error(`No data found for secret ${secretName}`);
+    }
+
+    const data = Buffer.from(secretVersion.payload.data as Buffer);
+    verifyCrc32c(data, secretVersion.payload.dataCrc32c, secretName);
+
+    // The response names the version "latest" resolved to; fall back to the one requested if it does not
+    const resolvedVersion = versionNumber(secretVersion.name) || version;
+    const payload = data.toString();
+    if (!isEncryptedPayload(payload)) {
+      return { version: resolvedVersion, content: payload };
+    }
+
+    if (!location.encryption) {
+      throw new Error(
+        `Secret ${secretName} is encrypted but no encryption key is configured for ${location.environment}`
+      );
+    }
+    return { version: resolvedVersion, content: location.encryption.decrypt(payload) };
+  }
+
+  /**
+   * Builds the payload for a new version: the content, encrypted when encryption is configured
+   * for this environment, with a CRC32C checksum Secret Manager verifies on receipt
+   */
+  private encodePayload(content: string): SecretPayload {
+    const data = Buffer.from(this.encryption ? this.encryption.encrypt(content) : content, 'utf8');
+    return { data, dataCrc32c: crc32c(data) };
+  }
+}
@@ -0,0 +1,64 @@
+import { SecretManagerServiceClient } from "@google-cloud/secret-manager";
+import {
+  AccessSecretVersionResponse,
+  Secret,
+  SecretBackend,
+  SecretPayload,
+  SecretVersion
+} from "./SecretBackend";
+
+/**
+ * Secret backend that stores secrets in Google Cloud Secret Manager
+ */
+export class GcpSecretBackend implements SecretBackend {
+  private client: SecretManagerServiceClient;
+
+  constructor(client: SecretManagerServiceClient) {
+    this.client = client;
+  }
+
+  async getSecret(request: { name: string }): Promise<[Secret]> {
+    const [secret] = await this.client.getSecret(request);
+    return [secret];
+  }
+
+  async createSecret(request: { parent: string; secretId: string; secret: Secret }): Promise<[Secret]> {
+    const [secret] = await this.client.createSecret(request);
+    return [secret];
+  }
+
+  async updateSecret(request: { secret: Secret; updateMask: { paths: string[] } }): Promise<[Secret]> {
+    const [secret] = await this.client.updateSecret(request);
+    return [secret];
+  }
+
+  async addSecretVersion(request: { parent: string; payload: SecretPayload }): Promise<[SecretVersion]> {
+    const [version] = await this.client.addSecretVersion(request);
+    return [version];
+  }
+
+  async listSecretVersions(request: { parent: string; pageSize?: number }): Promise<[SecretVersion[]]> {
+    const [versions] = await this.client.listSecretVersions(request);
+    return [versions];
+  }
+
+  async accessSecretVersion(request: { name: string }): Promise<[AccessSecretVersionResponse]> {
+    const [response] = await this.client.accessSecretVersion(request);
+    return [response];
+  }
+
+  async disableSecretVersion(request: { name: string }): Promise<[SecretVersion]> {
+    const [version] = await this.client.disableSecretVersion(request);
+    return [version];
+  }
+
+  async enableSecretVersion(request: { name: string }): Promise<[SecretVersion]> {
+    const [version] = await this.client.enableSecretVersion(request);
+    return [version];
+  }
+
+  async destroySecretVersion(request: { name: string }): Promise<[SecretVersion]> {
+    const [version] = await this.client.destroySecretVersion(request);
+    return [version];
+  }
+}
@@ -0,0 +1,36 @@
+import type { protos } from "@google-cloud/secret-manager";
+
+export type Secret = protos.google.cloud.secretmanager.v1.ISecret;
+export type SecretVersion = protos.google.cloud.secretmanager.v1.ISecretVersion;
+export type SecretPayload = protos.google.cloud.secretmanager.v1.ISecretPayload;
+export type AccessSecretVersionResponse = protos.google.cloud.secretmanager.v1.IAccessSecretVersionResponse;
+
+/**
+ * Storage for secrets and their versions. Requests and responses follow the Secret Manager API shapes,
+ * using full resource names (projects/{project}/secrets/{secret}[/versions/{version}]), so the
+ * Google Cloud client and offline implementations are interchangeable.
+ *
+ * Implementations report missing secrets with errors whose message contains "NOT_FOUND".
+ */
+export interface SecretBackend {
+  getSecret(request: { name: string }): Promise<[Secret]>;
+
+  createSecret(request: { parent: string; secretId: string; secret: Secret }): Promise<[Secret]>;
+
+  /**
+   * Updates the fields of a secret listed in updateMask.paths (e.g. "annotations")
+   */
+  updateSecret(request: { secret: Secret; updateMask: { paths: string[] } }): Promise<[Secret]>;
+
+  addSecretVersion(request: { parent: string; payload: SecretPayload }): Promise<[SecretVersion]>;
+
+  listSecretVersions(request: { parent: string; pageSize?: number }): Promise<[SecretVersion[]]>;
+
+  accessSecretVersion(request: { name: string }): Promise<[AccessSecretVersionResponse]>;
+
+  disableSecretVersion(request: { name: string }): Promise<[SecretVersion]>;
+
+  enableSecretVersion(request: { name: string }): Promise<[SecretVersion]>;
+
+  destroySecretVersion(request: { name: string }): Promise<[SecretVersion]>;
+}
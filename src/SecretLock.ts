@@ -0,0 +1,66 @@
+import fs from "fs";
+
+type SecretLockFile = Record<string, Record<string, string>>;
+
+/**
+ * Pins each service's env file to an exact secret version per environment, so builds read the
+ * same values every time. Stored as JSON keyed by environment, then service, with sorted keys
+ * so changes diff cleanly. Meant to be committed alongside .secrets-config.
+ */
+export class SecretLock {
+  private lockPath: string;
+  private lock?: SecretLockFile;
+
+  constructor(lockPath: string = ".secrets-lock") {
+    this.lockPath = lockPath;
+  }
+
+  get(environment: string, serviceName: string): string | undefined {
+    return this.load()[environment]?.[serviceName];
+  }
+
+  /**
+   * Returns the pinned version, throwing when there is none
+   */
+  require(environment: string, serviceName: string): string {
+    const version = this.get(environment, serviceName);
+    if (!version) {
+      throw new Error(
+        `No version of ${serviceName} is pinned for ${environment} in ${this.lockPath}. Run msm --lock to pin the current latest version.`
+      );
+    }
+    return version;
+  }
+
+  set(environment: string, serviceName: string, version: string): void {
+    const lock = this.load();
+    lock[environment] = { ...lock[environment], [serviceName]: version };
+
+    const sorted: SecretLockFile = {};
+    Object.keys(lock).sort().forEach(env => {
+      sorted[env] = {};
+      Object.keys(lock[env]).sort().forEach(service => {
+        sorted[env][service] = lock[env][service];
+      });
+    });
+
+    this.lock = sorted;
+    fs.writeFileSync(this.lockPath, JSON.stringify(sorted, null, 2) + "\n");
+  }
+
+  private load(): SecretLockFile {
+    if (!this.lock) {
+      if (!fs.existsSync(this.lockPath)) {
+        this.lock = {};
+      } else {
+        try {
+          this.lock = JSON.parse(fs.readFileSync(this.lockPath, "utf8"));
+        } catch (error) {
+          // Unlike sync state, a broken lock must not silently fall back to latest
+          throw new Error(`Invalid lock file ${this.lockPath}: ${(error as Error).message}`);
+        }
+      }
+    }
+    return this.lock!;
+  }
+}
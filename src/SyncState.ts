@@ -0,0 +1,53 @@
+import fs from "fs";
+
+export interface SyncStateEntry {
+  /** Remote version the local env file was last synced with (unset for per-key services) */
+  version?: string;
+  /** sha256 of the env file content at that version */
+  checksum: string;
+  /** ISO time of the download or upload */
+  syncedAt: string;
+}
+
+type SyncStateFile = Record<string, Record<string, SyncStateEntry>>;
+
+/**
+ * Remembers which remote version each local env file is based on, so uploads can detect that
+ * someone else changed the secret in the meantime. Stored as JSON keyed by environment, then service.
+ * The file is local to each checkout and should not be committed.
+ */
+export class SyncState {
+  private statePath: string;
+  private state?: SyncStateFile;
+
+  constructor(statePath: string = ".secrets-state") {
+    this.statePath = statePath;
+  }
+
+  get(environment: string, serviceName: string): SyncStateEntry | undefined {
+    return this.load()[environment]?.[serviceName];
+  }
+
+  set(environment: string, serviceName: string, entry: Omit<SyncStateEntry, "syncedAt">): void {
+    const state = this.load();
+    state[environment] = {
+      ...state[environment],
+      [serviceName]: { ...entry, syncedAt: new Date().toISOString() }
+    };
+    fs.writeFileSync(this.statePath, JSON.stringify(state, null, 2) + "\n");
+  }
+
+  private load(): SyncStateFile {
+    if (!this.state) {
+      try {
+        this.state = fs.existsSync(this.statePath)
+          ? JSON.parse(fs.readFileSync(this.statePath, "utf8"))
+          : {};
+      } catch {
+        // A corrupt state file only loses conflict detection, so start over
+        this.state = {};
+      }
+    }
+    return this.state!;
+  }
+}
@@ -108,6 +108,403 @@ describe('ConfigManager', () => {
     });
   });
 
+  describe('environments', () => {
+    const environmentsConfig = {
+      environments: {
+        dev: { projectId: 'test-dev', serviceAccountPath: 'dev-sa.json' },
+        staging: { envSuffix: 'stg', projectId: 'test-staging', serviceAccountPath: 'staging-sa.json' },
+        'customer-acme': { envSuffix: 'acme', projectId: 'test-acme' }
+      },
+      services: mockConfig.services
+    };
+
+    beforeEach(() => {
+      mockFs.existsSync.mockReturnValue(true);
+    });
+
+    it('should map legacy projectIds and serviceAccountPaths onto staging and production', () => {
+      mockFs.readFileSync.mockReturnValue(JSON.stringify(mockConfig));
+      const configManager = new ConfigManager();
+
+      expect(configManager.getEnvironmentNames()).toEqual(['staging', 'production']);
+      expect(configManager.getEnvSuffix('staging')).toBe('stg');
+      expect(configManager.getEnvSuffix('production')).toBe('prod');
+    });
+
+    it('should load any number of named environments', () => {
+      mockFs.readFileSync.mockReturnValue(JSON.stringify(environmentsConfig));
+      const configManager = new ConfigManager();
+
+      expect(configManager.getEnvironmentNames()).toEqual(['dev', 'staging', 'customer-acme']);
+      expect(configManager.getProjectId('customer-acme')).toBe('test-acme');
+      expect(configManager.getServiceAccountPath('dev')).toBe('dev-sa.json');
+      expect(configManager.getServiceAccountPath('customer-acme')).toBeUndefined();
+    });
+
+    it('should default the env file suffix to the environment name', () => {
+      mockFs.readFileSync.mockReturnValue(JSON.stringify(environmentsConfig));
+      const configManager = new ConfigManager();
+
+      expect(configManager.getEnvSuffix('dev')).toBe('dev');
+      expect(configManager.getEnvSuffix('customer-acme')).toBe('acme');
+    });
+
+    it('should resolve environments by name or suffix', () => {
+      mockFs.readFileSync.mockReturnValue(JSON.stringify(environmentsConfig));
+      const configManager = new ConfigManager();
+
+      expect(configManager.resolveEnvironmentName('staging')).toBe('staging');
+      expect(configManager.resolveEnvironmentName('acme')).toBe('customer-acme');
+      expect(configManager.resolveEnvironmentName('unknown')).toBeUndefined();
+    });
+
+    it('should throw error for unknown environment', () => {
+      mockFs.readFileSync.mockReturnValue(JSON.stringify(environmentsConfig));
+      const configManager = new ConfigManager();
+
+      expect(() => configManager.getProjectId('production')).toThrow("Environment 'production' not found in configuration");
+    });
+
+    it('should throw error when an environment is missing its projectId', () => {
+      mockFs.readFileSync.mockReturnValue(JSON.stringify({
+        environments: { dev: { serviceAccountPath: 'dev-sa.json' } },
+        services: []
+      }));
+
+      expect(() => new ConfigManager()).toThrow("Environment 'dev' is missing required field: projectId");
+    });
+
+    it('should throw error when two environments share an env file suffix', () => {
+      mockFs.readFileSync.mockReturnValue(JSON.stringify({
+        environments: {
+          qa: { projectId: 'test-qa' },
+          'qa-eu': { envSuffix: 'qa', projectId: 'test-qa-eu' }
+        },
+        services: []
+      }));
+
+      expect(() => new ConfigManager()).toThrow("Environment file suffix 'qa' is used by more than one environment");
+    });
+
+    it('should still require the legacy keys when no environments are defined', () => {
+      mockFs.readFileSync.mockReturnValue(JSON.stringify({
+        projectIds: mockConfig.projectIds,
+        services: []
+      }));
+
+      expect(() => new ConfigManager()).toThrow('Configuration must include serviceAccountPaths for both staging and production');
+    });
+  });
+
+  describe('getBackendConfig', () => {
+    beforeEach(() => {
+      mockFs.existsSync.mockReturnValue(true);
+    });
+
+    it('should default to the gcp backend', () => {
+      mockFs.readFileSync.mockReturnValue(JSON.stringify(mockConfig));
+      expect(new ConfigManager().getBackendConfig()).toEqual({ type: 'gcp' });
+    });
+
+    it('should return the configured filesystem backend', () => {
+      mockFs.readFileSync.mockReturnValue(JSON.stringify({
+        ...mockConfig,
+        backend: { type: 'filesystem', path: '.local-secrets' }
+      }));
+      expect(new ConfigManager().getBackendConfig()).toEqual({ type: 'filesystem', path: '.local-secrets' });
+    });
+
+    it('should reject unknown backend types', () => {
+      mockFs.readFileSync.mockReturnValue(JSON.stringify({ ...mockConfig, backend: { type: 'vault' } }));
+      expect(() => new ConfigManager()).toThrow("backend.type must be either 'gcp' or 'filesystem'");
+    });
+  });
+
+  describe('getDeletePolicy', () => {
+    beforeEach(() => {
+      mockFs.existsSync.mockReturnValue(true);
+    });
+
+    it('should return the defaults when no policy is configured', () => {
+      mockFs.readFileSync.mockReturnValue(JSON.stringify(mockConfig));
+      expect(new ConfigManager().getDeletePolicy('app', 'production')).toEqual({
+        maxVersions: 10,
+        maxAgeDays: 30,
+        enabled: true
+      });
+    });
+
+    it('should merge service and environment policies over the global one', () => {
+      mockFs.readFileSync.mockReturnValue(JSON.stringify({
+        ...mockConfig,
+        environments: {
+          production: { envSuffix: 'prod', projectId: 'test-production', deletePolicy: { maxAgeDays: 90 } }
+        },
+        services: [
+          { ...mockConfig.services[0], name: 'payments', deletePolicy: { maxVersions: 100 } },
+          mockConfig.services[1]
+        ],
+        deletePolicy: { maxVersions: 10, maxAgeDays: 30, enabled: true }
+      }));
+      const configManager = new ConfigManager();
+
+      expect(configManager.getDeletePolicy('payments', 'production')).toEqual({ maxVersions: 100, maxAgeDays: 90, enabled: true });
+      expect(configManager.getDeletePolicy('payments', 'staging')).toEqual({ maxVersions: 100, maxAgeDays: 30, enabled: true });
+      expect(configManager.getDeletePolicy('api', 'production')).toEqual({ maxVersions: 10, maxAgeDays: 90, enabled: true });
+      expect(configManager.getDeletePolicy()).toEqual({ maxVersions: 10, maxAgeDays: 30, enabled: true });
+    });
+
+    it('should validate service and environment policies', () => {
+      mockFs.readFileSync.mockReturnValue(JSON.stringify({
+        ...mockConfig,
+        services: [{ ...mockConfig.services[0], deletePolicy: { maxVersions: -1 } }]
+      }));
+      expect(() => new ConfigManager()).toThrow("Service 'app' deletePolicy.maxVersions must be a non-negative integer");
+
+      mockFs.readFileSync.mockReturnValue(JSON.stringify({
+        ...mockConfig,
+        environments: { qa: { projectId: 'test-qa', deletePolicy: { enabled: 'yes' } } }
+      }));
+      expect(() => new ConfigManager()).toThrow('environments.qa.deletePolicy.enabled must be a boolean');
+
+      mockFs.readFileSync.mockReturnValue(JSON.stringify({ ...mockConfig, deletePolicy: { mode: 'archive' } }));
+      expect(() => new ConfigManager()).toThrow(
+        "deletePolicy.mode must be one of 'destroy', 'disable' or 'disable-then-destroy'"
+      );
+    });
+  });
+
+  describe('getSecretSettings', () => {
+    beforeEach(() => {
+      mockFs.existsSync.mockReturnValue(true);
+    });
+
+    it('should override replication per level and merge labels', () => {
+      mockFs.readFileSync.mockReturnValue(JSON.stringify({
+        ...mockConfig,
+        secretSettings: { labels: { team: 'platform', env: '{env}' } },
+        environments: {
+          production: {
+            envSuffix: 'prod',
+            projectId: 'test-production',
+            secretSettings: { replicationLocations: ['europe-west1'], kmsKeyName: 'projects/p/locations/{location}/keyRings/r/cryptoKeys/k' }
+          }
+        },
+        services: [
+          { ...mockConfig.services[0], secretSettings: { labels: { team: 'payments' } } },
+          mockConfig.services[1]
+        ]
+      }));
+      const configManager = new ConfigManager();
+
+      expect(configManager.getSecretSettings('app', 'production')).toEqual({
+        replicationLocations: ['europe-west1'],
+        kmsKeyName: 'projects/p/locations/{location}/keyRings/r/cryptoKeys/k',
+        labels: { team: 'payments', env: '{env}' }
+      });
+      expect(configManager.getSecretSettings('api', 'staging')).toEqual({ labels: { team: 'platform', env: '{env}' } });
+    });
+
+    it('should require {location} in the KMS key when replicating to several locations', () => {
+      mockFs.readFileSync.mockReturnValue(JSON.stringify({
+        ...mockConfig,
+        secretSettings: {
+          replicationLocations: ['europe-west1', 'europe-west4'],
+          kmsKeyName: 'projects/p/locations/europe-west1/keyRings/r/cryptoKeys/k'
+        }
+      }));
+      expect(() => new ConfigManager()).toThrow('secretSettings.kmsKeyName must contain {location}');
+    });
+
+    it('should reject invalid labels', () => {
+      mockFs.readFileSync.mockReturnValue(JSON.stringify({ ...mockConfig, secretSettings: { labels: { Team: 'x' } } }));
+      expect(() => new ConfigManager()).toThrow("secretSettings.labels key 'Team' must start with a lowercase letter");
+    });
+  });
+
+  describe('getPromotionRules', () => {
+    beforeEach(() => {
+      mockFs.existsSync.mockReturnValue(true);
+    });
+
+    it('should add the service rules to the global rules', () => {
+      mockFs.readFileSync.mockReturnValue(JSON.stringify({
+        ...mockConfig,
+        promotion: { exclude: ['DEBUG'], rewrites: [{ find: 'stg.example.com', replace: 'example.com' }] },
+        services: [
+          { ...mockConfig.services[0], promotion: { perEnvironment: ['DATABASE_URL'] } },
+          mockConfig.services[1]
+        ]
+      }));
+      const configManager = new ConfigManager();
+
+      expect(configManager.getPromotionRules('app')).toEqual({
+        exclude: ['DEBUG'],
+        perEnvironment: ['DATABASE_URL'],
+        rewrites: [{ find: 'stg.example.com', replace: 'example.com' }]
+      });
+      expect(configManager.getPromotionRules('api').perEnvironment).toEqual([]);
+    });
+
+    it('should reject rewrites without a find string', () => {
+      mockFs.readFileSync.mockReturnValue(JSON.stringify({ ...mockConfig, promotion: { rewrites: [{ replace: 'x' }] } }));
+      expect(() => new ConfigManager()).toThrow('promotion.rewrites[0] must have a non-empty find and a replace string');
+    });
+  });
+
+  describe('shared layer', () => {
+    const shared = { envPath: '.environments/.shared.{env}.env', secretPrefix: 'shared-env-vars' };
+
+    beforeEach(() => {
+      mockFs.existsSync.mockReturnValue(true);
+    });
+
+    it('should return the shared layer as the service "shared"', () => {
+      mockFs.readFileSync.mockReturnValue(JSON.stringify({ ...mockConfig, shared }));
+      const configManager = new ConfigManager();
+
+      expect(configManager.getServiceByName('shared')).toEqual({ ...shared, name: 'shared' });
+      expect(configManager.getServiceNames()).toEqual(['app', 'api']);
+      expect(configManager.getSharedLayer()).toEqual(shared);
+    });
+
+    it('should reject a service named shared and invalid excludeShared lists', () => {
+      mockFs.readFileSync.mockReturnValue(JSON.stringify({
+        ...mockConfig,
+        shared,
+        services: [{ ...mockConfig.services[0], name: 'shared' }]
+      }));
+      expect(() => new ConfigManager()).toThrow("A service cannot be named 'shared' when the shared layer is configured");
+
+      mockFs.readFileSync.mockReturnValue(JSON.stringify({
+        ...mockConfig,
+        services: [{ ...mockConfig.services[0], excludeShared: 'LOG_LEVEL' }]
+      }));
+      expect(() => new ConfigManager()).toThrow("Service 'app' excludeShared must be an array of variable names");
+    });
+  });
+
+  describe('targets', () => {
+    beforeEach(() => {
+      mockFs.existsSync.mockReturnValue(true);
+    });
+
+    it('should accept targets instead of targetPath and validate them', () => {
+      const { targetPath, ...app } = mockConfig.services[0];
+      mockFs.readFileSync.mockReturnValue(JSON.stringify({
+        ...mockConfig,
+        services: [{ ...app, targets: [{ path: 'apps/web/.env.local', include: ['NEXT_PUBLIC_*'] }] }]
+      }));
+      expect(new ConfigManager().getServiceByName('app')?.targets).toEqual([
+        { path: 'apps/web/.env.local', include: ['NEXT_PUBLIC_*'] }
+      ]);
+
+      mockFs.readFileSync.mockReturnValue(JSON.stringify({
+        ...mockConfig,
+        services: [{ ...app, targets: [{ path: 'config.toml', format: 'toml' }] }]
+      }));
+      expect(() => new ConfigManager()).toThrow(
+        "Service 'app' targets[0].format must be one of dotenv, json, yaml, shell, docker, runtimeconfig"
+      );
+
+      mockFs.readFileSync.mockReturnValue(JSON.stringify({ ...mockConfig, services: [app] }));
+      expect(() => new ConfigManager()).toThrow('Service at index 0 is missing required fields');
+    });
+  });
+
+  describe('getSchema', () => {
+    const schema = { PORT: { type: 'int' }, LOG_LEVEL: { type: 'enum', values: ['info', 'error'] } };
+
+    beforeEach(() => {
+      mockFs.existsSync.mockReturnValue(true);
+    });
+
+    it('should return inline schemas and read schema files next to the config', () => {
+      mockFs.readFileSync.mockImplementation(filePath => filePath === path.resolve(process.cwd(), 'schemas/api.json')
+        ? JSON.stringify(schema)
+        : JSON.stringify({
+          ...mockConfig,
+          services: [{ ...mockConfig.services[0], schema }, { ...mockConfig.services[1], schema: 'schemas/api.json' }]
+        }));
+      const configManager = new ConfigManager();
+
+      expect(configManager.getSchema('app')).toEqual(schema);
+      expect(configManager.getSchema('api')).toEqual(schema);
+    });
+
+    it('should return undefined for services without a schema', () => {
+      mockFs.readFileSync.mockReturnValue(JSON.stringify(mockConfig));
+
+      expect(new ConfigManager().getSchema('app')).toBeUndefined();
+    });
+
+    it('should validate schemas', () => {
+      const withSchema = (appSchema: unknown) => JSON.stringify({
+        ...mockConfig,
+        services: [{ ...mockConfig.services[0], schema: appSchema }]
+      });
+
+      mockFs.readFileSync.mockReturnValue(withSchema({ PORT: { type: 'number' } }));
+      expect(() => new ConfigManager()).toThrow(
+        "Service 'app' schema.PORT.type must be one of string, url, int, bool, enum, regex"
+      );
+
+      mockFs.readFileSync.mockReturnValue(withSchema({ LOG_LEVEL: { type: 'enum' } }));
+      expect(() => new ConfigManager()).toThrow(
+        "Service 'app' schema.LOG_LEVEL.values must be a non-empty array of strings for an enum"
+      );
+
+      mockFs.readFileSync.mockReturnValue(withSchema({ REGION: { type: 'regex', pattern: '[a-z' } }));
+      expect(() => new ConfigManager()).toThrow("Service 'app' schema.REGION.pattern is not a valid regular expression");
+
+      mockFs.readFileSync.mockReturnValue(withSchema({ SENTRY_DSN: { required: 'production' } }));
+      expect(() => new ConfigManager()).toThrow(
+        "Service 'app' schema.SENTRY_DSN.required must be a boolean or an array of environment names"
+      );
+    });
+
+    it('should reject invalid schema files when they are read', () => {
+      mockFs.readFileSync.mockImplementation(filePath => String(filePath).endsWith('api.json')
+        ? '{ "PORT": '
+        : JSON.stringify({ ...mockConfig, services: [{ ...mockConfig.services[0], schema: 'schemas/api.json' }] }));
+      const configManager = new ConfigManager();
+
+      expect(() => configManager.getSchema('app')).toThrow(
+        `Failed to parse schema file ${path.resolve(process.cwd(), 'schemas/api.json')}`
+      );
+    });
+  });
+
+  describe('getEncryptionConfig', () => {
+    beforeEach(() => {
+      mockFs.existsSync.mockReturnValue(true);
+    });
+
+    it('should return undefined when encryption is not configured', () => {
+      mockFs.readFileSync.mockReturnValue(JSON.stringify(mockConfig));
+      expect(new ConfigManager().getEncryptionConfig('production')).toBeUndefined();
+    });
+
+    it('should prefer the environment setting over the global one', () => {
+      mockFs.readFileSync.mockReturnValue(JSON.stringify({
+        ...mockConfig,
+        environments: {
+          production: { envSuffix: 'prod', projectId: 'test-production', encryption: { keyFile: 'prod.key' } }
+        },
+        encryption: { passphraseEnv: 'MSM_PASSPHRASE' }
+      }));
+      const configManager = new ConfigManager();
+
+      expect(configManager.getEncryptionConfig('production')).toEqual({ keyFile: 'prod.key' });
+      expect(configManager.getEncryptionConfig('staging')).toEqual({ passphraseEnv: 'MSM_PASSPHRASE' });
+    });
+
+    it('should reject encryption settings without a key source', () => {
+      mockFs.readFileSync.mockReturnValue(JSON.stringify({ ...mockConfig, encryption: {} }));
+      expect(() => new ConfigManager()).toThrow('encryption must set either keyFile or passphraseEnv');
+    });
+  });
+
   describe('getServiceNames', () => {
     let configManager: ConfigManager;
 
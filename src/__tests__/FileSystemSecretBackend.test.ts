@@ -0,0 +1,78 @@
+import { FileSystemSecretBackend } from '../FileSystemSecretBackend';
+import { crc32c } from '../crc32c';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+describe('FileSystemSecretBackend', () => {
+  const secretPath = 'projects/test-project/secrets/API_ENV_FILE';
+  let rootDir: string;
+  let backend: FileSystemSecretBackend;
+
+  beforeEach(() => {
+    rootDir = fs.mkdtempSync(path.join(os.tmpdir(), 'msm-backend-'));
+    backend = new FileSystemSecretBackend(rootDir);
+  });
+
+  afterEach(() => {
+    fs.rmSync(rootDir, { recursive: true, force: true });
+  });
+
+  it('should report missing secrets as NOT_FOUND', async () => {
+    await expect(backend.getSecret({ name: secretPath })).rejects.toThrow('NOT_FOUND');
+    await expect(backend.accessSecretVersion({ name: `${secretPath}/versions/latest` })).rejects.toThrow('NOT_FOUND');
+  });
+
+  it('should create secrets once', async () => {
+    await backend.createSecret({ parent: 'projects/test-project', secretId: 'API_ENV_FILE', secret: {} });
+
+    const [secret] = await backend.getSecret({ name: secretPath });
+    expect(secret.name).toBe(secretPath);
+    await expect(
+      backend.createSecret({ parent: 'projects/test-project', secretId: 'API_ENV_FILE', secret: {} })
+    ).rejects.toThrow('ALREADY_EXISTS');
+  });
+
+  it('should add numbered versions and resolve latest', async () => {
+    await backend.createSecret({ parent: 'projects/test-project', secretId: 'API_ENV_FILE', secret: {} });
+    const [first] = await backend.addSecretVersion({ parent: secretPath, payload: { data: Buffer.from('A=1') } });
+    const [second] = await backend.addSecretVersion({ parent: secretPath, payload: { data: Buffer.from('A=2') } });
+
+    expect(first.name).toBe(`${secretPath}/versions/1`);
+    expect(second.name).toBe(`${secretPath}/versions/2`);
+
+    const [latest] = await backend.accessSecretVersion({ name: `${secretPath}/versions/latest` });
+    expect(latest.name).toBe(`${secretPath}/versions/2`);
+    expect(Buffer.from(latest.payload!.data as Buffer).toString()).toBe('A=2');
+
+    const [older] = await backend.accessSecretVersion({ name: `${secretPath}/versions/1` });
+    expect(Buffer.from(older.payload!.data as Buffer).toString()).toBe('A=1');
+  });
+
+  it('should store checksums and reject payloads that do not match theirs', async () => {
+    await backend.createSecret({ parent: 'projects/test-project', secretId: 'API_ENV_FILE', secret: {} });
+    await backend.addSecretVersion({ parent: secretPath, payload: { data: Buffer.from('A=1'), dataCrc32c: crc32c(Buffer.from('A=1')) } });
+
+    const [latest] = await backend.accessSecretVersion({ name: `${secretPath}/versions/latest` });
+    expect(latest.payload!.dataCrc32c).toBe(crc32c(Buffer.from('A=1')));
+    await expect(
+      backend.addSecretVersion({ parent: secretPath, payload: { data: Buffer.from('A=2'), dataCrc32c: crc32c(Buffer.from('A=1')) } })
+    ).rejects.toThrow('INVALID_ARGUMENT');
+  });
+
+  it('should list versions newest first and destroy their payloads', async () => {
+    await backend.createSecret({ parent: 'projects/test-project', secretId: 'API_ENV_FILE', secret: {} });
+    await backend.addSecretVersion({ parent: secretPath, payload: { data: Buffer.from('A=1') } });
+    await backend.addSecretVersion({ parent: secretPath, payload: { data: Buffer.from('A=2') } });
+
+    await backend.destroySecretVersion({ name: `${secretPath}/versions/1` });
+
+    const [versions] = await backend.listSecretVersions({ parent: secretPath });
+    expect(versions.map(version => [version.name, version.state])).toEqual([
+      [`${secretPath}/versions/2`, 'ENABLED'],
+      [`${secretPath}/versions/1`, 'DESTROYED']
+    ]);
+    expect(Number(versions[0].createTime!.seconds)).toBeGreaterThan(0);
+    await expect(backend.accessSecretVersion({ name: `${secretPath}/versions/1` })).rejects.toThrow('FAILED_PRECONDITION');
+  });
+});
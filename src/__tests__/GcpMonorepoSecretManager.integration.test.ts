@@ -0,0 +1,636 @@
+import { FileSystemSecretBackend } from '../FileSystemSecretBackend';
+import { GcpMonorepoSecretManager, ServiceOperationError } from '../GcpMonorepoSecretManager';
+import { ServiceResult } from '../types';
+import { generateEncryptionKey } from '../encryption';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+// End-to-end flows through the manager, with the filesystem backend standing in for Secret Manager
+describe('GcpMonorepoSecretManager with the filesystem backend', () => {
+  const secretPath = 'projects/test-project/secrets/API_ENV_FILE';
+  let rootDir: string;
+  let backend: FileSystemSecretBackend;
+  let logSpy: jest.SpyInstance;
+
+  /** A service with its env file and target under dir */
+  const service = (name: string, settings: object = {}, dir = rootDir) => ({
+    name,
+    envPath: path.join(dir, `.environments/.${name}.{env}.env`),
+    targetPath: path.join(dir, `services/${name}/.env`),
+    secretPrefix: name.toUpperCase(),
+    ...settings
+  });
+
+  const envPath = (name: string, env = 'dev', dir = rootDir) => path.join(dir, `.environments/.${name}.${env}.env`);
+  const writeEnv = (name: string, content: string, env = 'dev') => fs.writeFileSync(envPath(name, env), content);
+  const readFile = (relativePath: string) => fs.readFileSync(path.join(rootDir, relativePath), 'utf8');
+
+  /**
+   * Writes a .secrets-config in dir, by default with a dev environment and the api service, all
+   * storing secrets in rootDir, and returns a manager for it
+   */
+  const setup = (config: object = {}, options: { environment?: string; dir?: string; configName?: string } = {}) => {
+    const dir = options.dir || rootDir;
+    const configPath = path.join(dir, options.configName || '.secrets-config');
+    fs.mkdirSync(path.join(dir, '.environments'), { recursive: true });
+    fs.writeFileSync(configPath, JSON.stringify({
+      environments: { dev: { projectId: 'test-project' } },
+      services: [service('api', {}, dir)],
+      backend: { type: 'filesystem', path: rootDir },
+      ...config
+    }));
+    return {
+      configPath,
+      manager: new GcpMonorepoSecretManager({ environment: options.environment || 'dev', configPath })
+    };
+  };
+
+  /** A separate working copy sharing the same secrets, as a teammate's checkout would */
+  const checkout = (name: string, settings: object = {}, config: object = {}) => {
+    const dir = path.join(rootDir, name);
+    return {
+      envPath: envPath('api', 'dev', dir),
+      manager: setup({ services: [service('api', settings, dir)], ...config }, { dir }).manager
+    };
+  };
+
+  beforeEach(() => {
+    rootDir = fs.mkdtempSync(path.join(os.tmpdir(), 'msm-manager-'));
+    backend = new FileSystemSecretBackend(rootDir);
+    logSpy = jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    logSpy.mockRestore();
+    fs.rmSync(rootDir, { recursive: true, force: true });
+  });
+
+  it('should run the upload, download and set flow without Google Cloud', async () => {
+    const { manager } = setup();
+    writeEnv('api', 'PORT=3000\n');
+
+    await manager.uploadEnv('api');
+    fs.unlinkSync(envPath('api'));
+    await manager.downloadEnv('api');
+    await manager.setEnv('api');
+
+    expect(readFile('.environments/.api.dev.env')).toBe('PORT=3000\n');
+    expect(readFile('services/api/.env')).toBe('PORT=3000\n');
+    expect(fs.existsSync(path.join(rootDir, 'test-project/API_ENV_FILE/versions/1.json'))).toBe(true);
+  });
+
+  it('should set the services that downloaded when another one fails', async () => {
+    const { manager } = setup({ services: [service('api'), service('web')] });
+    writeEnv('web', 'PORT=8080\n');
+    await manager.uploadEnv('web');
+    const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    try {
+      const error = await manager.downloadEnv('all', { set: true }).catch(error => error);
+
+      expect(error).toBeInstanceOf(ServiceOperationError);
+      expect(error.results.map(({ service, status, detail }: ServiceResult) => ({ service, status, detail }))).toEqual([
+        { service: 'api', status: 'failed', detail: undefined },
+        { service: 'web', status: 'succeeded', detail: 'set' }
+      ]);
+      expect(readFile('services/web/.env')).toBe('PORT=8080\n');
+      expect(fs.existsSync(path.join(rootDir, 'services/api'))).toBe(false);
+    } finally {
+      errorSpy.mockRestore();
+    }
+  });
+
+  it('should store per-key services as one secret per variable and reassemble them in order', async () => {
+    const { manager } = setup({ services: [service('api', { storageMode: 'per-key' })] });
+    writeEnv('api', 'PORT=3000\nDATABASE_URL=postgres://db\nAPP_NAME="my api"\n');
+
+    await manager.uploadEnv('api');
+    await manager.setEnv('api');
+
+    const [databaseUrl] = await backend.accessSecretVersion({ name: 'projects/test-project/secrets/API_DATABASE_URL/versions/latest' });
+    expect(Buffer.from(databaseUrl.payload!.data as Buffer).toString()).toBe('postgres://db');
+    expect(readFile('services/api/.env')).toBe("PORT=3000\nDATABASE_URL=postgres://db\nAPP_NAME='my api'\n");
+
+    // Re-uploading an unchanged file adds no versions
+    await manager.uploadEnv('api');
+    const [portVersions] = await backend.listSecretVersions({ parent: 'projects/test-project/secrets/API_PORT' });
+    expect(portVersions).toHaveLength(1);
+  });
+
+  it('should encrypt uploads and keep reading earlier plaintext versions', async () => {
+    const keyFile = path.join(rootDir, 'dev.key');
+    fs.writeFileSync(keyFile, generateEncryptionKey());
+    const { configPath: plainConfigPath } = setup();
+    const { manager } = setup(
+      { environments: { dev: { projectId: 'test-project', encryption: { keyFile } } } },
+      { configName: '.secrets-config-encrypted' }
+    );
+    writeEnv('api', 'API_KEY=plain\n');
+
+    await new GcpMonorepoSecretManager({ environment: 'dev', configPath: plainConfigPath }).uploadEnv('api');
+    writeEnv('api', 'API_KEY=hidden\n');
+    await manager.uploadEnv('api');
+
+    const [latest] = await backend.accessSecretVersion({ name: `${secretPath}/versions/2` });
+    const stored = Buffer.from(latest.payload!.data as Buffer).toString();
+    expect(stored.startsWith('MSM-ENCRYPTED:v1\n')).toBe(true);
+    expect(stored).not.toContain('hidden');
+
+    // Unchanged content is compared after decryption, so no new version is added
+    await manager.uploadEnv('api');
+    const [versions] = await backend.listSecretVersions({ parent: secretPath });
+    expect(versions).toHaveLength(2);
+
+    await manager.setEnv('api');
+    expect(readFile('services/api/.env')).toBe('API_KEY=hidden\n');
+    await manager.setEnv('api', { version: '1' });
+    expect(readFile('services/api/.env')).toBe('API_KEY=plain\n');
+
+    const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    try {
+      await expect(
+        new GcpMonorepoSecretManager({ environment: 'dev', configPath: plainConfigPath }).setEnv('api')
+      ).rejects.toThrow('Secret API_ENV_FILE is encrypted but no encryption key is configured for dev');
+    } finally {
+      errorSpy.mockRestore();
+    }
+  });
+
+  it('should create secrets with the configured settings and reconcile labels later', async () => {
+    const writeConfig = (secretSettings: object) =>
+      setup({ environments: { prod: { projectId: 'test-project' } }, secretSettings }, { environment: 'prod' }).manager;
+    const manager = writeConfig({
+      replicationLocations: ['europe-west1', 'europe-west4'],
+      kmsKeyName: 'projects/kms/locations/{location}/keyRings/r/cryptoKeys/env',
+      labels: { service: '{service}', env: '{env}' }
+    });
+    writeEnv('api', 'PORT=3000\n', 'prod');
+
+    await manager.uploadEnv('api');
+
+    const [created] = await backend.getSecret({ name: secretPath });
+    expect(created.labels).toEqual({ service: 'api', env: 'prod' });
+    expect(created.replication).toEqual({
+      userManaged: {
+        replicas: [
+          { location: 'europe-west1', customerManagedEncryption: { kmsKeyName: 'projects/kms/locations/europe-west1/keyRings/r/cryptoKeys/env' } },
+          { location: 'europe-west4', customerManagedEncryption: { kmsKeyName: 'projects/kms/locations/europe-west4/keyRings/r/cryptoKeys/env' } }
+        ]
+      }
+    });
+
+    await writeConfig({
+      replicationLocations: ['europe-west4', 'europe-west1'],
+      kmsKeyName: 'projects/kms/locations/{location}/keyRings/r/cryptoKeys/env',
+      labels: { service: '{service}', env: '{env}', team: 'payments' }
+    }).reconcileSecrets('api');
+    expect((await backend.getSecret({ name: secretPath }))[0].labels).toEqual({ service: 'api', env: 'prod', team: 'payments' });
+
+    await expect(writeConfig({ replicationLocations: ['us-east1'] }).reconcileSecrets('api')).rejects.toThrow(
+      'Replication cannot be changed after a secret is created'
+    );
+  });
+
+  it('should refuse uploads based on an outdated download unless forced', async () => {
+    const alice = checkout('alice');
+    const bob = checkout('bob');
+
+    fs.writeFileSync(alice.envPath, 'PORT=3000\n');
+    await alice.manager.uploadEnv('api');
+    await bob.manager.downloadEnv('api');
+
+    fs.writeFileSync(alice.envPath, 'PORT=3000\nREDIS_URL=redis://cache\n');
+    await alice.manager.uploadEnv('api');
+
+    fs.writeFileSync(bob.envPath, 'PORT=4000\n');
+    await expect(bob.manager.uploadEnv('api')).rejects.toThrow(
+      'api changed in dev since your local file was last synced (your file is based on version 1, latest is version 2)'
+    );
+
+    await bob.manager.uploadEnv('api', { force: true });
+    const [latest] = await backend.accessSecretVersion({ name: `${secretPath}/versions/latest` });
+    expect(latest.name).toBe(`${secretPath}/versions/3`);
+
+    // Forcing makes the new version the base, so the next upload goes through
+    fs.writeFileSync(bob.envPath, 'PORT=5000\n');
+    await bob.manager.uploadEnv('api');
+    const [versions] = await backend.listSecretVersions({ parent: secretPath });
+    expect(versions).toHaveLength(4);
+  });
+
+  it('should pin versions in the lock file and read them when frozen', async () => {
+    const { configPath, manager } = setup({
+      environments: { dev: { projectId: 'test-project' }, qa: { projectId: 'test-project' } }
+    });
+    writeEnv('api', 'PORT=3000\n');
+
+    await manager.uploadEnv('api');
+    await manager.lockVersions('api');
+    expect(JSON.parse(readFile('.secrets-lock'))).toEqual({ dev: { api: '1' } });
+
+    writeEnv('api', 'PORT=4000\n');
+    await manager.uploadEnv('api');
+    await manager.setEnv('api', { frozen: true });
+    expect(readFile('services/api/.env')).toBe('PORT=3000\n');
+
+    const qaManager = new GcpMonorepoSecretManager({ environment: 'qa', configPath });
+    await expect(qaManager.setEnv('api', { frozen: true })).rejects.toThrow('No version of api is pinned for qa');
+
+    await manager.lockVersions('api');
+    await manager.setEnv('api', { frozen: true });
+    expect(readFile('services/api/.env')).toBe('PORT=4000\n');
+  });
+
+  it('should keep pinned versions when cleaning up', async () => {
+    const { manager } = setup({ deletePolicy: { maxVersions: 1, maxAgeDays: 0, enabled: true, mode: 'destroy' } });
+    writeEnv('api', 'PORT=3000\n');
+    await manager.uploadEnv('api');
+    await manager.lockVersions('api');
+
+    writeEnv('api', 'PORT=4000\n');
+    await manager.uploadEnv('api');
+    writeEnv('api', 'PORT=5000\n');
+    await manager.uploadEnv('api');
+    await manager.cleanupVersions('api');
+
+    const [versions] = await backend.listSecretVersions({ parent: secretPath });
+    expect(versions.map(v => [v.name!.split('/').pop(), v.state]).sort()).toEqual([
+      ['1', 'ENABLED'], ['2', 'DESTROYED'], ['3', 'ENABLED']
+    ]);
+    await manager.setEnv('api', { frozen: true });
+    expect(readFile('services/api/.env')).toBe('PORT=3000\n');
+  });
+
+  it('should record provenance with each upload and show it in history and peek', async () => {
+    const { manager } = setup();
+    writeEnv('api', 'PORT=3000\n');
+
+    await manager.uploadEnv('api', { message: 'Initial import' });
+
+    const [entry] = await manager.getVersionHistory('api');
+    expect(entry.provenance).toEqual(expect.objectContaining({
+      uploadedBy: os.userInfo().username,
+      hostname: os.hostname(),
+      message: 'Initial import'
+    }));
+
+    logSpy.mockClear();
+    await manager.peekEnv('api');
+    expect(logSpy.mock.calls.map(call => call.join(' ')).join('\n')).toContain(
+      `# Version 1 uploaded by ${os.userInfo().username} on ${os.hostname()}`
+    );
+  });
+
+  it('should disable expired versions and destroy them only after the grace period', async () => {
+    const { manager } = setup({
+      deletePolicy: { maxVersions: 1, maxAgeDays: 0, enabled: true, mode: 'disable-then-destroy', graceDays: 7 }
+    });
+
+    writeEnv('api', 'PORT=1\n');
+    await manager.uploadEnv('api');
+    writeEnv('api', 'PORT=2\n');
+    await manager.uploadEnv('api');
+
+    const states = async () => (await backend.listSecretVersions({ parent: secretPath }))[0].map(v => v.state);
+    expect(await states()).toEqual(['ENABLED', 'DISABLED']);
+
+    // Still within the grace period, and restorable
+    await manager.cleanupVersions('api');
+    expect(await states()).toEqual(['ENABLED', 'DISABLED']);
+    await manager.enableVersion('api', '1');
+    await manager.setEnv('api', { version: '1' });
+    expect(readFile('services/api/.env')).toBe('PORT=1\n');
+    expect((await backend.getSecret({ name: secretPath }))[0].annotations).not.toHaveProperty('msm-disabled-1');
+
+    // Disabled again, then backdated past the grace period
+    await manager.cleanupVersions('api');
+    const eightDaysAgo = new Date(Date.now() - 8 * 24 * 60 * 60 * 1000).toISOString();
+    const [secret] = await backend.getSecret({ name: secretPath });
+    await backend.updateSecret({
+      secret: { name: secretPath, annotations: { ...secret.annotations, 'msm-disabled-1': eightDaysAgo } },
+      updateMask: { paths: ['annotations'] }
+    });
+    await manager.cleanupVersions('api');
+
+    expect(await states()).toEqual(['ENABLED', 'DESTROYED']);
+    expect(Object.keys((await backend.getSecret({ name: secretPath }))[0].annotations!)).toEqual(['msm-provenance-2']);
+  });
+
+  it('should promote an env file to another environment after confirmation', async () => {
+    const { configPath, manager: production } = setup({
+      environments: {
+        staging: { envSuffix: 'stg', projectId: 'stg-project' },
+        production: { envSuffix: 'prod', projectId: 'prod-project' }
+      },
+      services: [service('api', {
+        promotion: {
+          perEnvironment: ['DATABASE_URL'],
+          rewrites: [{ find: 'stg.example.com', replace: 'example.com', to: 'production' }]
+        }
+      })]
+    }, { environment: 'production' });
+    writeEnv('api', 'API_URL=https://api.stg.example.com\nDATABASE_URL=postgres://stg\n', 'stg');
+    writeEnv('api', 'DATABASE_URL=postgres://prod\n', 'prod');
+    await new GcpMonorepoSecretManager({ environment: 'staging', configPath }).uploadEnv('api');
+    await production.uploadEnv('api');
+
+    const confirm = jest.fn().mockResolvedValueOnce(false).mockResolvedValueOnce(true);
+    const [cancelled] = await production.promoteEnv('api', 'staging', { confirm });
+    expect(cancelled).toEqual(expect.objectContaining({ status: 'skipped', detail: 'cancelled' }));
+
+    const [promoted] = await production.promoteEnv('api', 'staging', { confirm });
+    expect(promoted).toEqual(expect.objectContaining({ action: 'promoted', version: '2', detail: 'from staging version 1' }));
+
+    const [latest] = await backend.accessSecretVersion({ name: 'projects/prod-project/secrets/API_ENV_FILE/versions/latest' });
+    expect(Buffer.from(latest.payload!.data as Buffer).toString()).toBe(
+      'API_URL=https://api.example.com\nDATABASE_URL=postgres://prod\n'
+    );
+    expect(confirm).toHaveBeenCalledWith('Promote api to production?');
+
+    const [unchanged] = await production.promoteEnv('api', 'staging', { confirm });
+    expect(unchanged.status).toBe('skipped');
+    expect(confirm).toHaveBeenCalledTimes(2);
+  });
+
+  it('should merge local edits into downloads and mark conflicts', async () => {
+    const alice = checkout('alice');
+    const bob = checkout('bob');
+    const warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    fs.writeFileSync(alice.envPath, 'PORT=3000\nDEBUG=false\n');
+    await alice.manager.uploadEnv('api');
+    await bob.manager.downloadEnv('api');
+
+    fs.writeFileSync(alice.envPath, 'PORT=4000\nDEBUG=false\nREDIS_URL=redis://cache\n');
+    await alice.manager.uploadEnv('api');
+
+    fs.writeFileSync(bob.envPath, 'PORT=5000\nDEBUG=true\n');
+    const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    await expect(bob.manager.downloadEnv('api')).rejects.toThrow(
+      `Conflicts in PORT were written to ${bob.envPath} with conflict markers. Resolve them before uploading.`
+    );
+    errorSpy.mockRestore();
+    expect(fs.readFileSync(bob.envPath, 'utf8')).toBe(
+      '<<<<<<< local\nPORT=5000\n=======\nPORT=4000\n>>>>>>> dev version 2\nDEBUG=true\nREDIS_URL=redis://cache\n'
+    );
+    await expect(bob.manager.uploadEnv('api')).rejects.toThrow('has unresolved conflict markers');
+
+    // Resolving by hand keeps version 2 as the base, so the upload goes through
+    fs.writeFileSync(bob.envPath, 'PORT=5000\nDEBUG=true\nREDIS_URL=redis://cache\n');
+    await bob.manager.uploadEnv('api');
+
+    fs.writeFileSync(alice.envPath, 'PORT=6000\nDEBUG=false\nREDIS_URL=redis://cache\n');
+    const resolveConflict = jest.fn().mockResolvedValue('theirs');
+    await alice.manager.downloadEnv('api', { resolveConflict });
+    expect(resolveConflict).toHaveBeenCalledWith({ key: 'PORT', base: '4000', local: '6000', remote: '5000' }, 'api');
+    expect(fs.readFileSync(alice.envPath, 'utf8')).toBe('PORT=5000\nDEBUG=true\nREDIS_URL=redis://cache\n');
+
+    // The merged file is based on version 3, so a local-only edit survives the next download
+    fs.writeFileSync(alice.envPath, 'PORT=7000\nDEBUG=true\nREDIS_URL=redis://cache\n');
+    const [merged] = await alice.manager.downloadEnv('api', { strategy: 'theirs' });
+    expect(merged.action).toBe('merged');
+    expect(fs.readFileSync(alice.envPath, 'utf8')).toBe('PORT=7000\nDEBUG=true\nREDIS_URL=redis://cache\n');
+    warnSpy.mockRestore();
+  });
+
+  it('should keep local files that were never synced unless a strategy is given', async () => {
+    const alice = checkout('alice');
+    const carol = checkout('carol');
+    const warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    fs.writeFileSync(alice.envPath, 'PORT=3000\nDEBUG=false\n');
+    await alice.manager.uploadEnv('api');
+
+    // carol and dave have local files but no record of the version they came from
+    fs.writeFileSync(carol.envPath, 'PORT=4000\nLOCAL_ONLY=1\n');
+    const [merged] = await carol.manager.downloadEnv('api', { strategy: 'ours' });
+    expect(merged.action).toBe('merged');
+    expect(fs.readFileSync(carol.envPath, 'utf8')).toBe('PORT=4000\nDEBUG=false\nLOCAL_ONLY=1\n');
+
+    const dave = checkout('dave');
+    fs.writeFileSync(dave.envPath, 'PORT=4000\nLOCAL_ONLY=1\n');
+    await expect(dave.manager.downloadEnv('api')).rejects.toThrow(
+      `${dave.envPath} has local changes, but the version it was last synced with is unknown, so they cannot be merged. ` +
+      'Download with --strategy ours, theirs or merge to choose how keys that differ from dev are resolved.'
+    );
+    expect(fs.readFileSync(dave.envPath, 'utf8')).toBe('PORT=4000\nLOCAL_ONLY=1\n');
+    errorSpy.mockRestore();
+    warnSpy.mockRestore();
+  });
+
+  it('should keep local edits to per-key services and files whose base was destroyed', async () => {
+    const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    const deletePolicy = { maxVersions: 1, maxAgeDays: 0, enabled: true, mode: 'destroy' };
+
+    // Per-key services have no single version to merge against
+    const alice = checkout('alice', { storageMode: 'per-key' });
+    const bob = checkout('bob', { storageMode: 'per-key' });
+    fs.writeFileSync(alice.envPath, 'A=1\n');
+    await alice.manager.uploadEnv('api');
+    await bob.manager.downloadEnv('api');
+    fs.writeFileSync(bob.envPath, 'A=1\nLOCAL=mine\n');
+    await expect(bob.manager.downloadEnv('api')).rejects.toThrow('the version it was last synced with is unknown');
+    expect(fs.readFileSync(bob.envPath, 'utf8')).toBe('A=1\nLOCAL=mine\n');
+
+    // carol's base, version 1, is destroyed by cleanup when erin uploads version 2
+    const erin = checkout('erin', { secretPrefix: 'FILE' }, { deletePolicy });
+    const carol = checkout('carol', { secretPrefix: 'FILE' }, { deletePolicy });
+    fs.writeFileSync(erin.envPath, 'A=1\n');
+    await erin.manager.uploadEnv('api');
+    await carol.manager.downloadEnv('api');
+    fs.writeFileSync(erin.envPath, 'A=2\n');
+    await erin.manager.uploadEnv('api');
+    fs.writeFileSync(carol.envPath, 'A=1\nLOCAL=mine\n');
+    await expect(carol.manager.downloadEnv('api')).rejects.toThrow('the version it was last synced with is unknown');
+    expect(fs.readFileSync(carol.envPath, 'utf8')).toBe('A=1\nLOCAL=mine\n');
+
+    const [merged] = await carol.manager.downloadEnv('api', { strategy: 'theirs' });
+    expect(merged.action).toBe('merged');
+    expect(fs.readFileSync(carol.envPath, 'utf8')).toBe('A=2\nLOCAL=mine\n');
+    errorSpy.mockRestore();
+  });
+  it('should upload the shared layer once and merge it under each service on set', async () => {
+    const { manager } = setup({
+      shared: { envPath: path.join(rootDir, '.environments/.shared.{env}.env'), secretPrefix: 'SHARED' },
+      services: [service('api'), service('worker', { excludeShared: ['API_HOST'] })]
+    });
+    writeEnv('shared', 'LOG_LEVEL=info\nAPI_HOST=api.internal\n');
+    writeEnv('api', 'PORT=3000\n');
+    writeEnv('worker', 'LOG_LEVEL=debug\n');
+
+    const uploads = await manager.uploadEnv('all');
+    expect(uploads.map(result => result.service)).toEqual(['shared', 'api', 'worker']);
+
+    const sets = await manager.setEnv('all');
+    expect(sets[0]).toEqual(expect.objectContaining({ service: 'shared', status: 'skipped' }));
+    expect(readFile('services/api/.env')).toBe('LOG_LEVEL=info\nAPI_HOST=api.internal\nPORT=3000\n');
+    expect(readFile('services/worker/.env')).toBe('LOG_LEVEL=debug\n');
+
+    // Changing a shared value is one upload, and the services' own secrets stay untouched
+    writeEnv('shared', 'LOG_LEVEL=warn\nAPI_HOST=api.internal\n');
+    await manager.uploadEnv('shared');
+    await manager.setEnv('api');
+    expect(readFile('services/api/.env')).toBe('LOG_LEVEL=warn\nAPI_HOST=api.internal\nPORT=3000\n');
+    const [apiVersions] = await backend.listSecretVersions({ parent: secretPath });
+    expect(apiVersions).toHaveLength(1);
+  });
+
+  it('should resolve references to other services when setting', async () => {
+    const { manager } = setup({
+      shared: { envPath: path.join(rootDir, '.environments/.shared.{env}.env'), secretPrefix: 'SHARED' },
+      services: [service('api'), service('web')]
+    });
+    writeEnv('shared', 'API_HOST=api.internal\n');
+    writeEnv('api', 'PUBLIC_URL=https://${ref:shared.API_HOST}\n');
+    writeEnv('web', 'API_URL=${ref:api.PUBLIC_URL}/v1\n');
+
+    await manager.uploadEnv('all');
+    await manager.setEnv('web');
+    expect(readFile('services/web/.env')).toBe('API_HOST=api.internal\nAPI_URL=https://api.internal/v1\n');
+
+    // Values are stored with their references, so the source of truth stays in one place
+    writeEnv('web', 'API_URL=${ref:api.INTERNAL_URL}\n');
+    await manager.uploadEnv('web');
+    const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    await expect(manager.setEnv('web')).rejects.toThrow(
+      'Dangling references in web: ${ref:api.INTERNAL_URL} in web.API_URL (api has no INTERNAL_URL)'
+    );
+    errorSpy.mockRestore();
+  });
+
+  it('should report references to services not uploaded yet as dangling', async () => {
+    const { manager } = setup({ services: [service('api'), service('web')] });
+    writeEnv('web', 'API_URL=${ref:api.PUBLIC_URL}/v1\n');
+    await manager.uploadEnv('web');
+    const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    try {
+      await expect(manager.setEnv('web')).rejects.toThrow(
+        'Dangling references in web: ${ref:api.PUBLIC_URL} in web.API_URL (no values for api)'
+      );
+    } finally {
+      errorSpy.mockRestore();
+    }
+  });
+
+  it('should write every target in its own format', async () => {
+    const { manager } = setup({
+      services: [{
+        name: 'web',
+        envPath: path.join(rootDir, '.environments/.web.{env}.env'),
+        secretPrefix: 'WEB',
+        targets: [
+          { path: path.join(rootDir, 'apps/web/.env.local'), include: ['NEXT_PUBLIC_*'] },
+          { path: path.join(rootDir, 'docker/web.env'), format: 'docker' },
+          { path: path.join(rootDir, 'apps/web/config.json'), format: 'json', exclude: ['SESSION_SECRET'] }
+        ]
+      }]
+    });
+    writeEnv('web', 'NEXT_PUBLIC_API_URL=https://api.example.com\nSESSION_SECRET=s3cret\n');
+
+    await manager.uploadEnv('web');
+    const [result] = await manager.setEnv('web');
+
+    expect(result.detail).toBe('3 targets');
+    expect(readFile('apps/web/.env.local')).toBe('NEXT_PUBLIC_API_URL=https://api.example.com\n');
+    expect(readFile('docker/web.env')).toBe('NEXT_PUBLIC_API_URL=https://api.example.com\nSESSION_SECRET=s3cret\n');
+    expect(JSON.parse(readFile('apps/web/config.json'))).toEqual({ NEXT_PUBLIC_API_URL: 'https://api.example.com' });
+  });
+
+  it('should refuse to upload env files that do not match their schema', async () => {
+    const { manager } = setup({
+      environments: { production: { projectId: 'test-project' } },
+      shared: { envPath: path.join(rootDir, '.environments/.shared.{env}.env'), secretPrefix: 'SHARED' },
+      services: [service('api', { schema: 'schemas/api.json' })]
+    }, { environment: 'production' });
+    fs.mkdirSync(path.join(rootDir, 'schemas'));
+    fs.writeFileSync(path.join(rootDir, 'schemas/api.json'), JSON.stringify({
+      PORT: { type: 'int', required: true },
+      LOG_LEVEL: { type: 'enum', values: ['debug', 'info'], required: ['production'], allowedValues: { production: ['info'] } }
+    }));
+    writeEnv('shared', 'LOG_LEVEL=debug\n', 'production');
+    writeEnv('api', 'PORT=http\n', 'production');
+
+    await manager.uploadEnv('shared');
+    await expect(manager.uploadEnv('api')).rejects.toThrow(
+      'api does not match its schema in production: PORT must be an integer; LOG_LEVEL must be one of info in production'
+    );
+    expect(fs.existsSync(path.join(rootDir, 'test-project/API_ENV_FILE'))).toBe(false);
+
+    // Values inherited from the shared layer count
+    writeEnv('api', 'PORT=3000\nLOG_LEVEL=info\n', 'production');
+    const results = await manager.validateEnv('all');
+    expect(results.map(({ service, status, detail }) => ({ service, status, detail }))).toEqual([
+      { service: 'shared', status: 'skipped', detail: 'no schema' },
+      { service: 'api', status: 'succeeded', detail: '2 variables checked' }
+    ]);
+    await manager.uploadEnv('api');
+    expect(fs.existsSync(path.join(rootDir, 'test-project/API_ENV_FILE/versions/1.json'))).toBe(true);
+  });
+
+  it('should refuse to roll back to a version that does not match the schema unless forced', async () => {
+    const { manager } = setup({ services: [service('api', { schema: { PORT: { type: 'int', required: true } } })] });
+    writeEnv('api', 'PORT=3000\n');
+    await manager.uploadEnv('api');
+    writeEnv('api', 'PORT=3001\n');
+    await manager.uploadEnv('api');
+
+    // The schema changed after version 1 was uploaded
+    const { manager: rollbackManager } = setup({
+      services: [service('api', { schema: { PORT: { type: 'int', required: true }, HOST: { required: true } } })]
+    });
+    await expect(rollbackManager.rollbackEnv('api', '1')).rejects.toThrow(
+      'Version 1: api does not match its schema in dev: HOST is required. Roll back with --force to restore it anyway.'
+    );
+    expect(fs.existsSync(path.join(rootDir, 'test-project/API_ENV_FILE/versions/3.json'))).toBe(false);
+
+    const result = await rollbackManager.rollbackEnv('api', '1', { force: true });
+    expect(result.version).toBe('3');
+  });
+
+  it('should say the schema is checked without a shared layer that was never uploaded', async () => {
+    const warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const config = {
+      environments: { dev: { projectId: 'test-project' }, production: { projectId: 'prod-project' } },
+      shared: { envPath: path.join(rootDir, '.environments/.shared.{env}.env'), secretPrefix: 'SHARED' },
+      services: [service('api', { schema: { PORT: { type: 'int', required: true } } })]
+    };
+    const { manager } = setup(config);
+    writeEnv('api', 'PORT=3000\n');
+    await manager.uploadEnv('api');
+
+    const { manager: production } = setup(config, { environment: 'production' });
+    await production.promoteEnv('api', 'dev', { confirm: jest.fn().mockResolvedValue(true) });
+
+    const warnings = warnSpy.mock.calls.map(call => call.join(' '));
+    expect(warnings).toContain(
+      '⚠️  The shared layer has not been uploaded to production, so api is checked against its schema without it'
+    );
+    expect(warnings.join('\n')).not.toContain('is set without it');
+    warnSpy.mockRestore();
+  });
+
+  it('should check references against the local env files uploaded in the same run', async () => {
+    const { manager } = setup({
+      services: [service('api', { schema: 'schemas/api.json' }), service('web')]
+    });
+    fs.mkdirSync(path.join(rootDir, 'schemas'));
+    fs.writeFileSync(path.join(rootDir, 'schemas/api.json'), JSON.stringify({ WEB_URL: { type: 'url', required: true } }));
+    writeEnv('api', 'WEB_URL=${ref:web.URL}\n');
+    writeEnv('web', 'URL=https://web.example.com\n');
+
+    // api is uploaded before web, which has no remote version yet
+    const results = await manager.uploadEnv('all');
+    expect(results.map(({ service, status }) => ({ service, status }))).toEqual([
+      { service: 'api', status: 'succeeded' },
+      { service: 'web', status: 'succeeded' }
+    ]);
+
+    writeEnv('web', 'URL=not-a-url\n');
+    await expect(manager.validateEnv('api')).rejects.toThrow(
+      'api does not match its schema in dev: WEB_URL must be an absolute URL'
+    );
+  });
+});
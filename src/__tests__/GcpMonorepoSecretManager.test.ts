@@ -1,16 +1,18 @@
-import { GcpMonorepoSecretManager } from '../GcpMonorepoSecretManager';
+import { GcpMonorepoSecretManager, ServiceOperationError } from '../GcpMonorepoSecretManager';
 import { ConfigManager } from '../ConfigManager';
+import { crc32c } from '../crc32c';
+import { SecretManagerServiceClient } from '@google-cloud/secret-manager';
 import * as fs from 'fs';
 import * as path from 'path';
 
 // Mock dependencies
 jest.mock('fs');
 jest.mock('../ConfigManager');
-jest.mock('firebase-admin/app');
 jest.mock('@google-cloud/secret-manager');
 
 const mockFs = fs as jest.Mocked<typeof fs>;
 const MockConfigManager = ConfigManager as jest.MockedClass<typeof ConfigManager>;
+const MockSecretManagerServiceClient = SecretManagerServiceClient as jest.MockedClass<typeof SecretManagerServiceClient>;
 
 describe('GcpMonorepoSecretManager', () => {
   const mockServiceConfig = {
@@ -23,10 +25,16 @@ describe('GcpMonorepoSecretManager', () => {
   const mockConfigManager = {
     getProjectId: jest.fn(),
     getServiceAccountPath: jest.fn(),
+    getEnvSuffix: jest.fn(),
     getServiceByName: jest.fn(),
     getServiceNames: jest.fn(),
+    getSharedLayer: jest.fn(),
+    getSchema: jest.fn(),
     getServices: jest.fn(),
-    getDeletePolicy: jest.fn()
+    getDeletePolicy: jest.fn(),
+    getBackendConfig: jest.fn(),
+    getEncryptionConfig: jest.fn(),
+    getSecretSettings: jest.fn()
   };
 
   beforeEach(() => {
@@ -36,8 +44,13 @@ describe('GcpMonorepoSecretManager', () => {
     // Default mock implementations
     mockConfigManager.getProjectId.mockReturnValue('test-project');
     mockConfigManager.getServiceAccountPath.mockReturnValue('service-account.json');
+    mockConfigManager.getEnvSuffix.mockImplementation((environment: string) =>
+      ({ staging: 'stg', production: 'prod' } as Record<string, string>)[environment] || environment
+    );
     mockConfigManager.getServiceByName.mockReturnValue(mockServiceConfig);
     mockConfigManager.getServiceNames.mockReturnValue(['app', 'api']);
+    mockConfigManager.getBackendConfig.mockReturnValue({ type: 'gcp' });
+    mockConfigManager.getSecretSettings.mockReturnValue({});
     mockConfigManager.getDeletePolicy.mockReturnValue({
       maxVersions: 10,
       maxAgeDays: 30,
@@ -87,6 +100,42 @@ describe('GcpMonorepoSecretManager', () => {
         overrideSa: false
       })).toThrow('Service account file not found at service-account.json');
     });
+
+    it('should throw error when environment has no service account path', () => {
+      mockConfigManager.getServiceAccountPath.mockReturnValue(undefined);
+
+      expect(() => new GcpMonorepoSecretManager({
+        environment: 'dev',
+        overrideSa: false
+      })).toThrow("No service account path configured for environment 'dev'");
+    });
+
+    it('should give each environment its own client and credentials without changing process.env', () => {
+      mockConfigManager.getProjectId.mockImplementation((environment: string) => `${environment}-project`);
+      mockConfigManager.getServiceAccountPath.mockImplementation((environment: string) => `${environment}-sa.json`);
+      const envBefore = { ...process.env };
+
+      new GcpMonorepoSecretManager({ environment: 'staging', overrideSa: false });
+      new GcpMonorepoSecretManager({ environment: 'production', overrideSa: false });
+
+      expect(MockSecretManagerServiceClient).toHaveBeenCalledTimes(2);
+      expect(MockSecretManagerServiceClient).toHaveBeenNthCalledWith(1, {
+        projectId: 'staging-project',
+        keyFilename: path.resolve('staging-sa.json')
+      });
+      expect(MockSecretManagerServiceClient).toHaveBeenNthCalledWith(2, {
+        projectId: 'production-project',
+        keyFilename: path.resolve('production-sa.json')
+      });
+      expect(process.env).toEqual(envBefore);
+    });
+
+    it('should use Application Default Credentials with overrideSa', () => {
+      new GcpMonorepoSecretManager({ environment: 'staging', overrideSa: true });
+
+      expect(mockConfigManager.getServiceAccountPath).not.toHaveBeenCalled();
+      expect(MockSecretManagerServiceClient).toHaveBeenCalledWith({ projectId: 'test-project' });
+    });
   });
 
   describe('getAvailableServices', () => {
@@ -128,14 +177,25 @@ describe('GcpMonorepoSecretManager', () => {
       expect(envPath).toBe('.environments/.app.prod.env');
     });
 
+    it('should resolve named environment path using its suffix', () => {
+      const qaManager = new GcpMonorepoSecretManager({
+        environment: 'qa',
+        overrideSa: true
+      });
+
+      const envPath = (qaManager as any).getEnvPath('app');
+      expect(envPath).toBe('.environments/.app.qa.env');
+      expect(mockConfigManager.getEnvSuffix).toHaveBeenCalledWith('qa');
+    });
+
     it('should resolve secret name correctly', () => {
       const secretName = (manager as any).getSecretName('app');
       expect(secretName).toBe('app-env-vars_ENV_FILE');
     });
 
     it('should resolve target path correctly', () => {
-      const targetPath = (manager as any).getTargetPath('app');
-      expect(targetPath).toBe('services/app/.env');
+      const targets = (manager as any).getTargets('app');
+      expect(targets).toEqual([{ path: 'services/app/.env' }]);
     });
 
     it('should throw error for non-existent service', () => {
@@ -153,7 +213,9 @@ describe('GcpMonorepoSecretManager', () => {
       getSecret: jest.fn(),
       addSecretVersion: jest.fn(),
       createSecret: jest.fn(),
-      listSecretVersions: jest.fn()
+      updateSecret: jest.fn().mockResolvedValue([{}]),
+      listSecretVersions: jest.fn(),
+      accessSecretVersion: jest.fn()
     };
 
     beforeEach(() => {
@@ -163,7 +225,7 @@ describe('GcpMonorepoSecretManager', () => {
       });
       
       // Mock the client
-      (manager as any).client = mockClient;
+      (manager as any).backend = mockClient;
       
       // Mock file operations
       mockFs.readFileSync.mockReturnValue('NODE_ENV=staging\nPORT=3000');
@@ -179,7 +241,7 @@ describe('GcpMonorepoSecretManager', () => {
 
     it('should handle "all" services', async () => {
       mockFs.existsSync.mockReturnValue(true);
-      mockClient.getSecret.mockResolvedValue({});
+      mockClient.getSecret.mockResolvedValue([{}]);
       mockClient.addSecretVersion.mockResolvedValue([{ name: 'version-1' }]);
       mockClient.listSecretVersions = jest.fn().mockResolvedValue([[]]);
 
@@ -187,6 +249,49 @@ describe('GcpMonorepoSecretManager', () => {
 
       expect(mockConfigManager.getServiceNames).toHaveBeenCalled();
     });
+
+    it('should skip the upload when the local file matches latest', async () => {
+      mockClient.getSecret.mockResolvedValue([{}]);
+      mockClient.accessSecretVersion.mockResolvedValue([{
+        payload: { data: Buffer.from('NODE_ENV=staging\nPORT=3000') }
+      }]);
+
+      await manager.uploadEnv('app');
+
+      expect(mockClient.addSecretVersion).not.toHaveBeenCalled();
+    });
+
+    it('should upload unchanged content when forced', async () => {
+      mockClient.getSecret.mockResolvedValue([{}]);
+      mockClient.accessSecretVersion.mockResolvedValue([{
+        payload: { data: Buffer.from('NODE_ENV=staging\nPORT=3000') }
+      }]);
+      mockClient.addSecretVersion.mockResolvedValue([{ name: 'version-2' }]);
+      mockClient.listSecretVersions.mockResolvedValue([[]]);
+
+      await manager.uploadEnv('app', { force: true });
+
+      expect(mockClient.addSecretVersion).toHaveBeenCalledTimes(1);
+    });
+
+    it('should upload when latest differs from the local file', async () => {
+      mockClient.getSecret.mockResolvedValue([{}]);
+      mockClient.accessSecretVersion.mockResolvedValue([{
+        payload: { data: Buffer.from('NODE_ENV=staging\nPORT=8080') }
+      }]);
+      mockClient.addSecretVersion.mockResolvedValue([{ name: 'version-2' }]);
+      mockClient.listSecretVersions.mockResolvedValue([[]]);
+
+      await manager.uploadEnv('app');
+
+      expect(mockClient.addSecretVersion).toHaveBeenCalledWith({
+        parent: 'projects/test-project/secrets/app-env-vars_ENV_FILE',
+        payload: {
+          data: Buffer.from('NODE_ENV=staging\nPORT=3000', 'utf8'),
+          dataCrc32c: crc32c(Buffer.from('NODE_ENV=staging\nPORT=3000', 'utf8'))
+        }
+      });
+    });
   });
 
   describe('downloadEnv', () => {
@@ -201,13 +306,27 @@ describe('GcpMonorepoSecretManager', () => {
         overrideSa: true
       });
       
-      (manager as any).client = mockClient;
+      (manager as any).backend = mockClient;
       
       // Mock directory operations
       mockFs.mkdirSync.mockImplementation(() => undefined);
       mockFs.writeFileSync.mockImplementation(() => undefined);
     });
 
+    it('should refuse to write a payload whose checksum does not match', async () => {
+      mockClient.accessSecretVersion.mockResolvedValue([{
+        payload: {
+          data: Buffer.from('NODE_ENV=staging\nPORT=30'),
+          dataCrc32c: crc32c(Buffer.from('NODE_ENV=staging\nPORT=3000'))
+        }
+      }]);
+
+      await expect(manager.downloadEnv('app')).rejects.toThrow(
+        'Checksum mismatch for secret app-env-vars_ENV_FILE'
+      );
+      expect(mockFs.writeFileSync).not.toHaveBeenCalled();
+    });
+
     it('should create directory and write file on download', async () => {
       const mockPayload = {
         payload: {
@@ -227,6 +346,19 @@ describe('GcpMonorepoSecretManager', () => {
       );
     });
 
+    it('should download a specific version when requested', async () => {
+      mockClient.accessSecretVersion.mockResolvedValue([{
+        payload: { data: Buffer.from('NODE_ENV=staging') }
+      }]);
+      mockFs.existsSync.mockReturnValue(false);
+
+      await manager.downloadEnv('app', { version: '3' });
+
+      expect(mockClient.accessSecretVersion).toHaveBeenCalledWith({
+        name: 'projects/test-project/secrets/app-env-vars_ENV_FILE/versions/3'
+      });
+    });
+
     it('should handle "all" services', async () => {
       const mockPayload = {
         payload: {
@@ -235,11 +367,65 @@ describe('GcpMonorepoSecretManager', () => {
       };
       
       mockClient.accessSecretVersion.mockResolvedValue([mockPayload]);
+      mockFs.existsSync.mockReturnValue(false);
 
       await manager.downloadEnv('all');
 
       expect(mockConfigManager.getServiceNames).toHaveBeenCalled();
     });
+
+    it('should keep downloading concurrently when conflicts can be resolved by prompting', async () => {
+      const logSpy = jest.spyOn(console, 'log').mockImplementation(() => undefined);
+      mockConfigManager.getServiceNames.mockReturnValue(['app', 'api', 'worker']);
+      mockConfigManager.getServiceByName.mockImplementation((name: string) => ({
+        ...mockServiceConfig,
+        name,
+        secretPrefix: `${name}-env-vars`
+      }));
+      let running = 0;
+      let maxRunning = 0;
+      mockClient.accessSecretVersion.mockImplementation(async () => {
+        running++;
+        maxRunning = Math.max(maxRunning, running);
+        await new Promise(resolve => setTimeout(resolve, 5));
+        running--;
+        return [{ payload: { data: Buffer.from('NODE_ENV=staging') } }];
+      });
+      mockFs.existsSync.mockReturnValue(false);
+
+      await manager.downloadEnv('all', { resolveConflict: jest.fn() });
+
+      expect(maxRunning).toBeGreaterThan(1);
+      logSpy.mockRestore();
+    });
+
+    it('should keep going after a failed service and report every failure', async () => {
+      const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+      const logSpy = jest.spyOn(console, 'log').mockImplementation(() => undefined);
+      mockConfigManager.getServiceNames.mockReturnValue(['app', 'api', 'worker']);
+      mockConfigManager.getServiceByName.mockImplementation((name: string) => ({
+        ...mockServiceConfig,
+        name,
+        secretPrefix: `${name}-env-vars`
+      }));
+      mockClient.accessSecretVersion.mockImplementation(async ({ name }: { name: string }) => {
+        if (name.includes('api-env-vars')) {
+          throw new Error('5 NOT_FOUND: Secret not found');
+        }
+        return [{ payload: { data: Buffer.from('NODE_ENV=staging') } }];
+      });
+      mockFs.existsSync.mockReturnValue(false);
+
+      await expect(manager.downloadEnv('all')).rejects.toThrow('Download failed for 1 of 3 service(s): api');
+
+      expect(mockClient.accessSecretVersion).toHaveBeenCalledTimes(3);
+      const envWrites = mockFs.writeFileSync.mock.calls.filter(([file]) => !String(file).endsWith('.secrets-state'));
+      expect(envWrites).toHaveLength(2);
+      const output = logSpy.mock.calls.map(call => call[0]).join('\n');
+      expect(output).toContain('2 succeeded, 1 failed, 0 skipped');
+      errorSpy.mockRestore();
+      logSpy.mockRestore();
+    });
   });
 
   describe('setEnv', () => {
@@ -254,7 +440,7 @@ describe('GcpMonorepoSecretManager', () => {
         overrideSa: true
       });
       
-      (manager as any).client = mockClient;
+      (manager as any).backend = mockClient;
       
       mockFs.mkdirSync.mockImplementation(() => undefined);
       mockFs.writeFileSync.mockImplementation(() => undefined);
@@ -284,7 +470,9 @@ describe('GcpMonorepoSecretManager', () => {
     let manager: GcpMonorepoSecretManager;
     const mockClient = {
       listSecretVersions: jest.fn(),
-      destroySecretVersion: jest.fn()
+      destroySecretVersion: jest.fn(),
+      getSecret: jest.fn().mockResolvedValue([{}]),
+      updateSecret: jest.fn().mockResolvedValue([{}])
     };
 
     beforeEach(() => {
@@ -293,7 +481,7 @@ describe('GcpMonorepoSecretManager', () => {
         overrideSa: true
       });
       
-      (manager as any).client = mockClient;
+      (manager as any).backend = mockClient;
     });
 
     it('should skip cleanup when delete policy is disabled', async () => {
@@ -306,6 +494,14 @@ describe('GcpMonorepoSecretManager', () => {
       expect(mockClient.listSecretVersions).not.toHaveBeenCalled();
     });
 
+    it('should use the delete policy of the service being cleaned up', async () => {
+      mockClient.listSecretVersions.mockResolvedValue([[]]);
+
+      await manager.cleanupVersions('app');
+
+      expect(mockConfigManager.getDeletePolicy).toHaveBeenCalledWith('app', 'staging');
+    });
+
     it('should handle "all" services cleanup', async () => {
       mockClient.listSecretVersions.mockResolvedValue([[]]);
 
@@ -314,11 +510,420 @@ describe('GcpMonorepoSecretManager', () => {
       expect(mockConfigManager.getServiceNames).toHaveBeenCalled();
     });
 
+    it('should never destroy the newest version', async () => {
+      const secretPath = 'projects/test-project/secrets/app-env-vars_ENV_FILE';
+      mockConfigManager.getDeletePolicy.mockReturnValue({ maxVersions: 0, maxAgeDays: 1, enabled: true });
+      mockClient.listSecretVersions.mockResolvedValue([[
+        { name: `${secretPath}/versions/1`, state: 'ENABLED', createTime: { seconds: 1000 } },
+        { name: `${secretPath}/versions/2`, state: 'ENABLED', createTime: { seconds: 2000 } }
+      ]]);
+      mockClient.destroySecretVersion.mockResolvedValue([{}]);
+      const logSpy = jest.spyOn(console, 'log').mockImplementation(() => undefined);
+
+      await manager.cleanupVersions('app');
+
+      expect(mockClient.destroySecretVersion).toHaveBeenCalledTimes(1);
+      expect(mockClient.destroySecretVersion).toHaveBeenCalledWith({ name: `${secretPath}/versions/1` });
+      logSpy.mockRestore();
+    });
+
+    it('should disable expired versions and record when instead of destroying them', async () => {
+      const secretPath = 'projects/test-project/secrets/app-env-vars_ENV_FILE';
+      mockConfigManager.getDeletePolicy.mockReturnValue({ maxVersions: 1, enabled: true, mode: 'disable-then-destroy' });
+      mockClient.listSecretVersions.mockResolvedValue([[
+        { name: `${secretPath}/versions/1`, state: 'ENABLED', createTime: { seconds: 1000 } },
+        { name: `${secretPath}/versions/2`, state: 'ENABLED', createTime: { seconds: 2000 } }
+      ]]);
+      const backend = {
+        ...mockClient,
+        getSecret: jest.fn().mockResolvedValue([{ name: secretPath, annotations: { owner: 'payments' } }]),
+        disableSecretVersion: jest.fn().mockResolvedValue([{}]),
+        updateSecret: jest.fn().mockResolvedValue([{}])
+      };
+      (manager as any).backend = backend;
+      const logSpy = jest.spyOn(console, 'log').mockImplementation(() => undefined);
+
+      await manager.cleanupVersions('app');
+
+      expect(backend.disableSecretVersion).toHaveBeenCalledWith({ name: `${secretPath}/versions/1` });
+      expect(mockClient.destroySecretVersion).not.toHaveBeenCalled();
+      expect(backend.updateSecret).toHaveBeenCalledWith({
+        secret: {
+          name: secretPath,
+          annotations: { owner: 'payments', 'msm-disabled-1': expect.any(String) }
+        },
+        updateMask: { paths: ['annotations'] }
+      });
+      logSpy.mockRestore();
+    });
+
     it('should handle cleanup errors gracefully', async () => {
       mockClient.listSecretVersions.mockRejectedValue(new Error('Access denied'));
 
       // Should not throw
       await expect(manager.cleanupVersions('app')).resolves.not.toThrow();
     });
+
+    it('should report cleanup errors as warnings in the summary', async () => {
+      mockClient.listSecretVersions.mockRejectedValue(new Error('Access denied'));
+      mockConfigManager.getServiceNames.mockReturnValue(['app']);
+      const logSpy = jest.spyOn(console, 'log').mockImplementation(() => undefined);
+      const warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+      try {
+        const [result] = await manager.cleanupVersions('all');
+
+        expect(result.status).toBe('succeeded');
+        expect(result.warnings).toEqual(['Could not clean up versions for app-env-vars_ENV_FILE: Access denied']);
+        expect(logSpy).toHaveBeenCalledWith(expect.stringContaining('⚠️  Could not clean up versions for app-env-vars_ENV_FILE'));
+        expect(logSpy).toHaveBeenCalledWith(expect.stringContaining('1 with warnings'));
+      } finally {
+        logSpy.mockRestore();
+        warnSpy.mockRestore();
+      }
+    });
+  });
+
+  describe('diffEnv', () => {
+    let manager: GcpMonorepoSecretManager;
+    let logSpy: jest.SpyInstance;
+    const mockClient = {
+      accessSecretVersion: jest.fn()
+    };
+
+    beforeEach(() => {
+      manager = new GcpMonorepoSecretManager({
+        environment: 'staging',
+        overrideSa: true
+      });
+
+      (manager as any).backend = mockClient;
+      logSpy = jest.spyOn(console, 'log').mockImplementation(() => undefined);
+      mockFs.readFileSync.mockReturnValue('PORT=3000\nAPI_KEY=new-key');
+    });
+
+    afterEach(() => {
+      logSpy.mockRestore();
+    });
+
+    it('should compare the local file against the latest remote version with masked values', async () => {
+      mockClient.accessSecretVersion.mockResolvedValue([{
+        payload: { data: Buffer.from('PORT=3000\nAPI_KEY=old-key\nDEBUG=true') }
+      }]);
+
+      await manager.diffEnv('app');
+
+      expect(mockClient.accessSecretVersion).toHaveBeenCalledWith({
+        name: 'projects/test-project/secrets/app-env-vars_ENV_FILE/versions/latest'
+      });
+      const output = logSpy.mock.calls.map(call => call[0]).join('\n');
+      expect(output).toContain('  - DEBUG=****');
+      expect(output).toContain('  ~ API_KEY: **** -> ****');
+      expect(output).toContain('0 added, 1 removed, 1 changed, 1 unchanged');
+      expect(output).not.toContain('new-key');
+    });
+
+    it('should treat a missing secret as every key being added', async () => {
+      mockClient.accessSecretVersion.mockRejectedValue(new Error('5 NOT_FOUND: Secret not found'));
+
+      await manager.diffEnv('app', { showValues: true });
+
+      const output = logSpy.mock.calls.map(call => call[0]).join('\n');
+      expect(output).toContain('  + API_KEY=new-key');
+      expect(output).toContain('2 added, 0 removed, 0 changed, 0 unchanged');
+    });
+
+    it('should throw when the local file does not exist', async () => {
+      mockFs.existsSync.mockReturnValue(false);
+
+      await expect(manager.diffEnv('app')).rejects.toThrow(
+        'Environment file not found at .environments/.app.stg.env'
+      );
+    });
+  });
+
+  describe('getVersionHistory', () => {
+    let manager: GcpMonorepoSecretManager;
+    const mockClient = {
+      listSecretVersions: jest.fn(),
+      accessSecretVersion: jest.fn()
+    };
+    const secretPath = 'projects/test-project/secrets/app-env-vars_ENV_FILE';
+
+    beforeEach(() => {
+      manager = new GcpMonorepoSecretManager({
+        environment: 'staging',
+        overrideSa: true
+      });
+
+      (manager as any).backend = mockClient;
+      mockClient.listSecretVersions.mockResolvedValue([[
+        { name: `${secretPath}/versions/3`, state: 'ENABLED', createTime: { seconds: 1700000300 } },
+        { name: `${secretPath}/versions/1`, state: 'ENABLED', createTime: { seconds: 1700000100 } },
+        { name: `${secretPath}/versions/2`, state: 'DESTROYED', createTime: { seconds: 1700000200 } }
+      ]]);
+      mockClient.accessSecretVersion.mockImplementation(async ({ name }: { name: string }) => {
+        const payloads: Record<string, string> = {
+          [`${secretPath}/versions/1`]: 'A=1\nB=2',
+          [`${secretPath}/versions/3`]: 'A=1\nB=changed\nC=3'
+        };
+        return [{ payload: { data: Buffer.from(payloads[name]) } }];
+      });
+    });
+
+    it('should list versions newest first with keys changed from the previous readable version', async () => {
+      const history = await manager.getVersionHistory('app');
+
+      expect(history).toEqual([
+        { version: '3', state: 'ENABLED', createTime: new Date(1700000300 * 1000), keysChanged: 2 },
+        { version: '2', state: 'DESTROYED', createTime: new Date(1700000200 * 1000) },
+        { version: '1', state: 'ENABLED', createTime: new Date(1700000100 * 1000), keysChanged: 2 }
+      ]);
+      expect(mockClient.accessSecretVersion).not.toHaveBeenCalledWith({ name: `${secretPath}/versions/2` });
+    });
+
+    it('should show versions that cannot be read without keys changed', async () => {
+      const warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+      mockClient.accessSecretVersion.mockImplementation(async ({ name }: { name: string }) => {
+        if (name.endsWith('/versions/1')) {
+          throw new Error('Checksum mismatch for secret app-env-vars_ENV_FILE');
+        }
+        return [{ payload: { data: Buffer.from('A=1\nB=changed\nC=3') } }];
+      });
+
+      try {
+        const history = await manager.getVersionHistory('app');
+
+        expect(history.map(entry => entry.keysChanged)).toEqual([3, undefined, undefined]);
+        expect(warnSpy).toHaveBeenCalledWith(expect.stringContaining('Could not read version 1 of app-env-vars_ENV_FILE'));
+      } finally {
+        warnSpy.mockRestore();
+      }
+    });
+  });
+
+  describe('rollbackEnv', () => {
+    let manager: GcpMonorepoSecretManager;
+    let logSpy: jest.SpyInstance;
+    const mockClient = {
+      accessSecretVersion: jest.fn(),
+      addSecretVersion: jest.fn(),
+      listSecretVersions: jest.fn(),
+      getSecret: jest.fn().mockResolvedValue([{}]),
+      updateSecret: jest.fn().mockResolvedValue([{}])
+    };
+    const secretPath = 'projects/test-project/secrets/app-env-vars_ENV_FILE';
+
+    beforeEach(() => {
+      manager = new GcpMonorepoSecretManager({
+        environment: 'production',
+        overrideSa: true
+      });
+
+      (manager as any).backend = mockClient;
+      logSpy = jest.spyOn(console, 'log').mockImplementation(() => undefined);
+      mockClient.listSecretVersions.mockResolvedValue([[]]);
+    });
+
+    afterEach(() => {
+      logSpy.mockRestore();
+    });
+
+    it('should add the payload of the chosen version as a new version', async () => {
+      mockClient.accessSecretVersion.mockResolvedValue([{ payload: { data: Buffer.from('PORT=3000') } }]);
+      mockClient.addSecretVersion.mockResolvedValue([{ name: `${secretPath}/versions/8` }]);
+
+      await manager.rollbackEnv('app', '5');
+
+      expect(mockClient.accessSecretVersion).toHaveBeenCalledWith({ name: `${secretPath}/versions/5` });
+      expect(mockClient.addSecretVersion).toHaveBeenCalledWith({
+        parent: secretPath,
+        payload: { data: Buffer.from('PORT=3000', 'utf8'), dataCrc32c: crc32c(Buffer.from('PORT=3000', 'utf8')) }
+      });
+      expect(mockClient.listSecretVersions).toHaveBeenCalled();
+    });
+
+    it('should record the rollback in the new version\'s provenance', async () => {
+      mockClient.accessSecretVersion.mockResolvedValue([{ payload: { data: Buffer.from('PORT=3000') } }]);
+      mockClient.addSecretVersion.mockResolvedValue([{ name: `${secretPath}/versions/8` }]);
+
+      await manager.rollbackEnv('app', '5');
+
+      const { secret, updateMask } = mockClient.updateSecret.mock.calls[0][0];
+      expect(updateMask).toEqual({ paths: ['annotations'] });
+      expect(JSON.parse(secret.annotations['msm-provenance-8'])).toEqual(expect.objectContaining({
+        message: 'Rollback to version 5',
+        uploadedBy: expect.any(String)
+      }));
+    });
+
+    it('should fail without adding a version when the chosen version cannot be read', async () => {
+      mockClient.accessSecretVersion.mockRejectedValue(new Error('9 FAILED_PRECONDITION: version is destroyed'));
+
+      await expect(manager.rollbackEnv('app', '2')).rejects.toThrow('Could not read version 2 of app-env-vars_ENV_FILE');
+      expect(mockClient.addSecretVersion).not.toHaveBeenCalled();
+    });
+
+    it('should reject "all" and non-numeric versions', async () => {
+      await expect(manager.rollbackEnv('all', '2')).rejects.toThrow('Rollback must target a single service');
+      await expect(manager.rollbackEnv('app', 'latest')).rejects.toThrow("Invalid version 'latest'");
+    });
+  });
+
+  describe('dry run', () => {
+    let manager: GcpMonorepoSecretManager;
+    let logSpy: jest.SpyInstance;
+    const secretPath = 'projects/test-project/secrets/app-env-vars_ENV_FILE';
+    const mockClient = {
+      getSecret: jest.fn(),
+      createSecret: jest.fn(),
+      addSecretVersion: jest.fn(),
+      accessSecretVersion: jest.fn(),
+      listSecretVersions: jest.fn(),
+      destroySecretVersion: jest.fn()
+    };
+
+    beforeEach(() => {
+      manager = new GcpMonorepoSecretManager({
+        environment: 'staging',
+        overrideSa: true,
+        dryRun: true
+      });
+
+      (manager as any).backend = mockClient;
+      logSpy = jest.spyOn(console, 'log').mockImplementation(() => undefined);
+      mockFs.readFileSync.mockReturnValue('PORT=3000');
+    });
+
+    afterEach(() => {
+      logSpy.mockRestore();
+    });
+
+    const output = () => logSpy.mock.calls.map(call => call[0]).join('\n');
+
+    it('should report a new secret without creating it', async () => {
+      mockClient.getSecret.mockRejectedValue(new Error('5 NOT_FOUND: Secret not found'));
+
+      await manager.uploadEnv('app');
+
+      expect(mockClient.createSecret).not.toHaveBeenCalled();
+      expect(mockClient.addSecretVersion).not.toHaveBeenCalled();
+      expect(output()).toContain('[dry-run] Would create secret app-env-vars_ENV_FILE');
+    });
+
+    it('should report a new version without adding it', async () => {
+      mockClient.getSecret.mockResolvedValue([{}]);
+      mockClient.accessSecretVersion.mockResolvedValue([{ payload: { data: Buffer.from('PORT=8080') } }]);
+
+      await manager.uploadEnv('app');
+
+      expect(mockClient.addSecretVersion).not.toHaveBeenCalled();
+      expect(output()).toContain('[dry-run] Would add a new version to secret app-env-vars_ENV_FILE');
+    });
+
+    it('should list the versions cleanup would destroy without destroying them', async () => {
+      mockConfigManager.getDeletePolicy.mockReturnValue({ maxVersions: 1, enabled: true });
+      mockClient.listSecretVersions.mockResolvedValue([[
+        { name: `${secretPath}/versions/1`, state: 'ENABLED', createTime: { seconds: 1000 } },
+        { name: `${secretPath}/versions/2`, state: 'ENABLED', createTime: { seconds: 2000 } }
+      ]]);
+      mockFs.existsSync.mockImplementation(file => !String(file).endsWith('.secrets-lock'));
+
+      await manager.cleanupVersions('app');
+
+      expect(mockClient.destroySecretVersion).not.toHaveBeenCalled();
+      expect(output()).toContain('Would destroy 1 old version(s) of app-env-vars_ENV_FILE');
+      expect(output()).toContain('Version 1 (created 1970-01-01T00:16:40.000Z, ENABLED)');
+    });
+
+    it('should report target files set would overwrite without writing them', async () => {
+      mockFs.existsSync.mockReturnValue(true);
+      mockClient.accessSecretVersion.mockResolvedValue([{ payload: { data: Buffer.from('PORT=3000') } }]);
+
+      await manager.setEnv('app');
+
+      expect(mockFs.writeFileSync).not.toHaveBeenCalled();
+      expect(output()).toContain('[dry-run] Would overwrite services/app/.env for app in staging');
+    });
+  });
+
+  describe('results and logging', () => {
+    let manager: GcpMonorepoSecretManager;
+    const logger = { info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+    const mockClient = {
+      accessSecretVersion: jest.fn()
+    };
+
+    beforeEach(() => {
+      manager = new GcpMonorepoSecretManager({
+        environment: 'staging',
+        overrideSa: true,
+        logger
+      });
+
+      (manager as any).backend = mockClient;
+      mockFs.writeFileSync.mockImplementation(() => undefined);
+    });
+
+    it('should return what was done for each service and log through the given logger', async () => {
+      const logSpy = jest.spyOn(console, 'log').mockImplementation(() => undefined);
+      mockClient.accessSecretVersion.mockResolvedValue([{
+        name: 'projects/test-project/secrets/app-env-vars_ENV_FILE/versions/4',
+        payload: { data: Buffer.from('NODE_ENV=staging') }
+      }]);
+      mockFs.existsSync.mockReturnValue(false);
+
+      try {
+        const results = await manager.downloadEnv('app');
+
+        expect(results).toEqual([{
+          service: 'app',
+          environment: 'staging',
+          status: 'succeeded',
+          action: 'downloaded',
+          secretName: 'app-env-vars_ENV_FILE',
+          version: '4',
+          bytes: 16
+        }]);
+        expect(logger.info).toHaveBeenCalledWith(expect.stringContaining('successfully downloaded'));
+        expect(logSpy).not.toHaveBeenCalled();
+      } finally {
+        logSpy.mockRestore();
+      }
+    });
+
+    it('should carry every result in the error when a service of "all" fails', async () => {
+      mockConfigManager.getServiceByName.mockImplementation((name: string) => ({
+        ...mockServiceConfig,
+        name,
+        secretPrefix: `${name}-env-vars`
+      }));
+      mockClient.accessSecretVersion.mockImplementation(async ({ name }: { name: string }) => {
+        if (name.includes('api-env-vars')) {
+          throw new Error('13 INTERNAL: backend unavailable');
+        }
+        return [{ payload: { data: Buffer.from('NODE_ENV=staging') } }];
+      });
+
+      const error = await manager.setEnv('all').catch(caught => caught);
+
+      expect(error).toBeInstanceOf(ServiceOperationError);
+      expect(error.results.map((result: any) => [result.service, result.status])).toEqual([
+        ['app', 'succeeded'],
+        ['api', 'failed']
+      ]);
+      expect(error.results[1].error.message).toContain('backend unavailable');
+    });
+
+    it('should fail peek on read errors and skip missing secrets', async () => {
+      mockClient.accessSecretVersion.mockRejectedValueOnce(new Error('7 PERMISSION_DENIED: Permission denied'));
+      await expect(manager.peekEnv('app')).rejects.toThrow('PERMISSION_DENIED');
+      expect(logger.error).toHaveBeenCalledWith(expect.stringContaining('PERMISSION_DENIED'));
+
+      mockClient.accessSecretVersion.mockRejectedValueOnce(new Error('5 NOT_FOUND: Secret not found'));
+      await expect(manager.peekEnv('app')).resolves.toEqual([
+        expect.objectContaining({ service: 'app', status: 'skipped', detail: 'not found' })
+      ]);
+    });
   });
-}); 
\ No newline at end of file
+});
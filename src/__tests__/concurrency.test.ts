@@ -0,0 +1,55 @@
+import { createLock, mapWithConcurrency } from '../concurrency';
+
+describe('mapWithConcurrency', () => {
+  it('should return results in input order', async () => {
+    const results = await mapWithConcurrency([30, 10, 20], 3, async (delay, index) => {
+      await new Promise(resolve => setTimeout(resolve, delay));
+      return index;
+    });
+
+    expect(results).toEqual([0, 1, 2]);
+  });
+
+  it('should never run more than the limit at once', async () => {
+    let running = 0;
+    let maxRunning = 0;
+
+    await mapWithConcurrency([1, 2, 3, 4, 5, 6], 2, async () => {
+      running++;
+      maxRunning = Math.max(maxRunning, running);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      running--;
+    });
+
+    expect(maxRunning).toBe(2);
+  });
+
+  it('should handle an empty list', async () => {
+    await expect(mapWithConcurrency([], 4, async () => 1)).resolves.toEqual([]);
+  });
+});
+
+describe('createLock', () => {
+  it('should run tasks one at a time in the order they were given', async () => {
+    const lock = createLock();
+    const events: string[] = [];
+    const task = (name: string, delay: number) => lock(async () => {
+      events.push(`start ${name}`);
+      await new Promise(resolve => setTimeout(resolve, delay));
+      events.push(`end ${name}`);
+      return name;
+    });
+
+    await expect(Promise.all([task('a', 20), task('b', 5), task('c', 1)])).resolves.toEqual(['a', 'b', 'c']);
+    expect(events).toEqual(['start a', 'end a', 'start b', 'end b', 'start c', 'end c']);
+  });
+
+  it('should keep running queued tasks after one fails', async () => {
+    const lock = createLock();
+    const failed = lock(async () => { throw new Error('boom'); });
+    const next = lock(async () => 'ran');
+
+    await expect(failed).rejects.toThrow('boom');
+    await expect(next).resolves.toBe('ran');
+  });
+});
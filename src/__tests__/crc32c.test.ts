@@ -0,0 +1,28 @@
+import { crc32c, verifyCrc32c } from '../crc32c';
+
+describe('crc32c', () => {
+  it('should match the standard CRC32C check value', () => {
+    expect(crc32c(Buffer.from('123456789'))).toBe(0xe3069283);
+    expect(crc32c(Buffer.alloc(0))).toBe(0);
+  });
+
+  it('should accept matching checksums in any representation', () => {
+    const data = Buffer.from('PORT=3000');
+    const checksum = crc32c(data);
+
+    expect(() => verifyCrc32c(data, checksum, 'API_ENV_FILE')).not.toThrow();
+    expect(() => verifyCrc32c(data, String(checksum), 'API_ENV_FILE')).not.toThrow();
+    expect(() => verifyCrc32c(data, { toString: () => String(checksum) }, 'API_ENV_FILE')).not.toThrow();
+  });
+
+  it('should accept payloads stored without a checksum', () => {
+    expect(() => verifyCrc32c(Buffer.from('PORT=3000'), undefined, 'API_ENV_FILE')).not.toThrow();
+    expect(() => verifyCrc32c(Buffer.from('PORT=3000'), null, 'API_ENV_FILE')).not.toThrow();
+  });
+
+  it('should reject truncated payloads', () => {
+    const checksum = crc32c(Buffer.from('PORT=3000'));
+    expect(() => verifyCrc32c(Buffer.from('PORT=30'), checksum, 'API_ENV_FILE'))
+      .toThrow('Checksum mismatch for secret API_ENV_FILE');
+  });
+});
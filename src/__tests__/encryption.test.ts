@@ -0,0 +1,70 @@
+import { EnvelopeEncryption, generateEncryptionKey, isEncryptedPayload } from '../encryption';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+describe('EnvelopeEncryption', () => {
+  const content = 'DATABASE_URL=postgres://user:secret@db/app\nPORT=3000\n';
+  let tmpDir: string;
+  let keyFile: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'msm-encryption-'));
+    keyFile = path.join(tmpDir, 'secrets.key');
+    fs.writeFileSync(keyFile, generateEncryptionKey());
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+    delete process.env.MSM_TEST_PASSPHRASE;
+  });
+
+  it('should round-trip payloads with a keyfile', () => {
+    const encryption = new EnvelopeEncryption({ keyFile });
+    const payload = encryption.encrypt(content);
+
+    expect(isEncryptedPayload(payload)).toBe(true);
+    expect(payload).not.toContain('secret@db');
+    expect(encryption.encrypt(content)).not.toBe(payload);
+    expect(encryption.decrypt(payload)).toBe(content);
+  });
+
+  it('should round-trip payloads with a passphrase from the environment', () => {
+    process.env.MSM_TEST_PASSPHRASE = 'correct horse battery staple';
+    const payload = new EnvelopeEncryption({ passphraseEnv: 'MSM_TEST_PASSPHRASE' }).encrypt(content);
+
+    expect(new EnvelopeEncryption({ passphraseEnv: 'MSM_TEST_PASSPHRASE' }).decrypt(payload)).toBe(content);
+  });
+
+  it('should accept hex keyfiles', () => {
+    const hexKeyFile = path.join(tmpDir, 'hex.key');
+    fs.writeFileSync(hexKeyFile, 'ab'.repeat(32));
+    const encryption = new EnvelopeEncryption({ keyFile: hexKeyFile });
+
+    expect(encryption.decrypt(encryption.encrypt(content))).toBe(content);
+  });
+
+  it('should return plaintext payloads unchanged', () => {
+    expect(isEncryptedPayload(content)).toBe(false);
+    expect(new EnvelopeEncryption({ keyFile }).decrypt(content)).toBe(content);
+  });
+
+  it('should fail with the wrong key', () => {
+    const payload = new EnvelopeEncryption({ keyFile }).encrypt(content);
+    const otherKeyFile = path.join(tmpDir, 'other.key');
+    fs.writeFileSync(otherKeyFile, generateEncryptionKey());
+
+    expect(() => new EnvelopeEncryption({ keyFile: otherKeyFile }).decrypt(payload))
+      .toThrow('Failed to decrypt payload: wrong encryption key or corrupted data');
+  });
+
+  it('should report a missing passphrase variable', () => {
+    expect(() => new EnvelopeEncryption({ passphraseEnv: 'MSM_TEST_PASSPHRASE' }).encrypt(content))
+      .toThrow('Encryption passphrase environment variable MSM_TEST_PASSPHRASE is not set');
+  });
+
+  it('should reject keyfiles that do not hold a 32-byte key', () => {
+    fs.writeFileSync(keyFile, 'too-short');
+    expect(() => new EnvelopeEncryption({ keyFile }).encrypt(content)).toThrow('must contain a 32-byte key');
+  });
+});
@@ -0,0 +1,98 @@
+import { checksum, diffEnv, formatEnvDiff, hasChanges, layerEnv, maskValue, parseEnv, serializeEnv } from '../envFile';
+
+describe('envFile', () => {
+  describe('parseEnv', () => {
+    it('should parse keys and values in file order', () => {
+      const vars = parseEnv('# comment\nB=2\nA="quoted value"\n\nC=3');
+
+      expect(Object.keys(vars)).toEqual(['B', 'A', 'C']);
+      expect(vars.A).toBe('quoted value');
+    });
+  });
+
+  describe('serializeEnv', () => {
+    it('should write keys in the given order', () => {
+      expect(serializeEnv([['B', '2'], ['A', 'https://example.com/path?x=1']])).toBe(
+        'B=2\nA=https://example.com/path?x=1\n'
+      );
+    });
+
+    it('should quote values so they parse back unchanged', () => {
+      const entries: [string, string][] = [
+        ['SPACES', 'hello world'],
+        ['HASH', 'abc#def'],
+        ['QUOTE', "it's"],
+        ['MULTILINE', '-----BEGIN KEY-----\nabc\n-----END KEY-----'],
+        ['BOTH', `say "it's"`],
+        ['EMPTY', '']
+      ];
+
+      expect(parseEnv(serializeEnv(entries))).toEqual(Object.fromEntries(entries));
+    });
+  });
+
+  describe('diffEnv', () => {
+    it('should report added, removed, changed and unchanged keys', () => {
+      const diff = diffEnv('A=1\nB=changed\nD=4', 'A=1\nB=2\nC=3');
+
+      expect(diff).toEqual({
+        added: ['D'],
+        removed: ['C'],
+        changed: ['B'],
+        unchanged: ['A']
+      });
+      expect(hasChanges(diff)).toBe(true);
+    });
+
+    it('should ignore comments and formatting differences', () => {
+      const diff = diffEnv('# local comment\nA=1\n', 'A="1"');
+
+      expect(hasChanges(diff)).toBe(false);
+    });
+  });
+
+  describe('formatEnvDiff', () => {
+    const local = 'A=1\nB=new-secret\nD=4';
+    const remote = 'A=1\nB=old-secret\nC=3';
+
+    it('should mask values by default', () => {
+      const lines = formatEnvDiff(diffEnv(local, remote), local, remote);
+
+      expect(lines).toEqual([
+        '  + D=****',
+        '  - C=****',
+        '  ~ B: **** -> ****'
+      ]);
+    });
+
+    it('should show values when requested', () => {
+      const lines = formatEnvDiff(diffEnv(local, remote), local, remote, true);
+
+      expect(lines).toContain('  ~ B: old-secret -> new-secret');
+    });
+  });
+
+  describe('checksum', () => {
+    it('should be stable for identical content and differ otherwise', () => {
+      expect(checksum('A=1\n')).toBe(checksum('A=1\n'));
+      expect(checksum('A=1\n')).not.toBe(checksum('A=1'));
+    });
+  });
+
+  describe('maskValue', () => {
+    it('should leave empty values empty', () => {
+      expect(maskValue('')).toBe('');
+      expect(maskValue('secret')).toBe('****');
+    });
+  });
+
+  describe('layerEnv', () => {
+    it('should put inherited shared keys before the service content', () => {
+      const shared = 'SENTRY_DSN=https://sentry\nLOG_LEVEL=info\nAPI_HOST=api.internal\n';
+      const own = '# api\nLOG_LEVEL=debug\nPORT=3000\n';
+
+      expect(layerEnv(shared, own, ['API_HOST'])).toBe('SENTRY_DSN=https://sentry\n# api\nLOG_LEVEL=debug\nPORT=3000\n');
+      expect(layerEnv('', own)).toBe(own);
+    });
+  });
+});
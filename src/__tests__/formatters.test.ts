@@ -0,0 +1,35 @@
+import { formatEnv } from '../formatters';
+
+describe('formatEnv', () => {
+  const content = "# web\nNEXT_PUBLIC_API_URL=https://api.example.com\nDATABASE_URL=postgres://db\nGREETING=it's here\n";
+
+  it('should write unfiltered dotenv targets as is', () => {
+    expect(formatEnv(content, { path: '.env' })).toBe(content);
+  });
+
+  it('should keep only the keys the filters allow', () => {
+    expect(formatEnv(content, { path: '.env.local', include: ['NEXT_PUBLIC_*'] })).toBe(
+      'NEXT_PUBLIC_API_URL=https://api.example.com\n'
+    );
+    expect(formatEnv(content, { path: 'config.json', format: 'json', exclude: ['DATABASE_*', 'GREETING'] })).toBe(
+      '{\n  "NEXT_PUBLIC_API_URL": "https://api.example.com"\n}\n'
+    );
+  });
+
+  it('should format yaml, shell, docker and runtimeconfig targets', () => {
+    const vars = 'PORT=3000\nGREETING="it\'s here"\n';
+
+    expect(formatEnv(vars, { path: 'env.yaml', format: 'yaml' })).toBe('PORT: "3000"\nGREETING: "it\'s here"\n');
+    expect(formatEnv(vars, { path: 'env.sh', format: 'shell' })).toBe("export PORT='3000'\nexport GREETING='it'\\''s here'\n");
+    expect(formatEnv(vars, { path: 'docker.env', format: 'docker' })).toBe("PORT=3000\nGREETING=it's here\n");
+    expect(formatEnv(vars, { path: '.runtimeconfig.json', format: 'runtimeconfig', namespace: 'app' })).toBe(
+      '{\n  "app": {\n    "port": "3000",\n    "greeting": "it\'s here"\n  }\n}\n'
+    );
+  });
+
+  it('should refuse multi-line values in docker env files', () => {
+    expect(() => formatEnv('KEY="a\\nb"\n', { path: 'docker.env', format: 'docker' })).toThrow(
+      'KEY has a multi-line value, which Docker env files cannot hold (target docker.env)'
+    );
+  });
+});
@@ -1,5 +1,7 @@
 import { loadConfig } from '../loadConfig';
 import { initSecretManagerClient } from '../initSecretManagerClient';
+import { EnvelopeEncryption } from '../encryption';
+import { crc32c } from '../crc32c';
 import * as fs from 'fs';
 import * as path from 'path';
 import dotenv from 'dotenv';
@@ -68,6 +70,117 @@ describe('loadConfig', () => {
     expect(mockFs.writeFileSync).toHaveBeenCalledWith('/path/to/.env', mockSecretData);
   });
 
+  it('should merge the service secret over the shared layer', async () => {
+    mockFs.existsSync.mockReturnValue(false);
+    mockDotenv.parse.mockImplementation(jest.requireActual('dotenv').parse);
+    mockClient.accessSecretVersion.mockImplementation(async ({ name }: { name: string }) => [{
+      payload: {
+        data: Buffer.from(name.includes('SHARED_ENV_FILE')
+          ? 'SENTRY_DSN=https://sentry\nLOG_LEVEL=info\nAPI_HOST=api.internal\n'
+          : 'ENV=STG\nLOG_LEVEL=debug\n')
+      }
+    }]);
+
+    await loadConfig({
+      serviceName: 'test-service',
+      projectId: 'test-project',
+      sharedSecretName: 'SHARED_ENV_FILE',
+      excludeShared: ['API_HOST']
+    });
+
+    expect(mockClient.accessSecretVersion).toHaveBeenCalledWith({
+      name: 'projects/test-project/secrets/SHARED_ENV_FILE/versions/latest'
+    });
+    expect(mockFs.writeFileSync).toHaveBeenCalledWith('/path/to/.env', 'SENTRY_DSN=https://sentry\nENV=STG\nLOG_LEVEL=debug\n');
+  });
+
+  it('should resolve references to other services from their secrets', async () => {
+    mockFs.existsSync.mockReturnValue(false);
+    mockDotenv.parse.mockImplementation(jest.requireActual('dotenv').parse);
+    const secrets: Record<string, string> = {
+      'TEST-SERVICE_ENV_FILE': 'ENV=STG\nAPI_URL=${ref:api.PUBLIC_URL}/v1\n',
+      'API_SECRETS': 'PUBLIC_URL=https://api.example.com\n'
+    };
+    mockClient.accessSecretVersion.mockImplementation(async ({ name }: { name: string }) => [{
+      payload: { data: Buffer.from(secrets[name.split('/')[3]]) }
+    }]);
+
+    await loadConfig({
+      serviceName: 'test-service',
+      projectId: 'test-project',
+      referenceSecretNames: { api: 'API_SECRETS' }
+    });
+
+    expect(mockFs.writeFileSync).toHaveBeenCalledWith('/path/to/.env', 'ENV=STG\nAPI_URL=https://api.example.com/v1\n');
+  });
+
+  it('should not write a payload whose checksum does not match', async () => {
+    mockFs.existsSync.mockReturnValue(false);
+    mockClient.accessSecretVersion.mockResolvedValue([{
+      payload: {
+        data: Buffer.from('ENV=STG\nPORT=30'),
+        dataCrc32c: crc32c(Buffer.from('ENV=STG\nPORT=3000'))
+      }
+    }]);
+    const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    try {
+      await expect(loadConfig({ serviceName: 'test-service', projectId: 'test-project' }))
+        .rejects.toThrow('Failed to initialize config for test-service from Secret Manager');
+      expect(errorSpy).toHaveBeenCalledWith(expect.stringContaining('Checksum mismatch for secret TEST-SERVICE_ENV_FILE'));
+      expect(mockFs.writeFileSync).not.toHaveBeenCalled();
+    } finally {
+      errorSpy.mockRestore();
+    }
+  });
+
+  it('should not write env files that do not match the schema', async () => {
+    mockFs.existsSync.mockReturnValue(false);
+    mockClient.accessSecretVersion.mockResolvedValue([{
+      payload: { data: Buffer.from('ENV=production\nPORT=3000\nLOG_LEVEL=debug\n') }
+    }]);
+    const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    try {
+      await expect(loadConfig({
+        serviceName: 'test-service',
+        projectId: 'test-project',
+        environment: 'production',
+        schema: { PORT: { type: 'int' }, LOG_LEVEL: { allowedValues: { production: ['info', 'error'] } } }
+      })).rejects.toThrow('Failed to initialize config for test-service from Secret Manager');
+      expect(errorSpy).toHaveBeenCalledWith(
+        'Error: test-service does not match its schema in production: LOG_LEVEL must be one of info, error in production'
+      );
+      expect(mockFs.writeFileSync).not.toHaveBeenCalled();
+    } finally {
+      errorSpy.mockRestore();
+    }
+  });
+
+  it('should decrypt encrypted payloads with the configured key', async () => {
+    mockFs.existsSync.mockReturnValue(false);
+    process.env.MSM_TEST_PASSPHRASE = 'passphrase';
+    const mockSecretData = 'ENV=STG\nAPI_KEY=secret';
+    const encryption = { passphraseEnv: 'MSM_TEST_PASSPHRASE' };
+    mockClient.accessSecretVersion.mockResolvedValue([{
+      payload: {
+        data: Buffer.from(new EnvelopeEncryption(encryption).encrypt(mockSecretData))
+      }
+    }]);
+
+    const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    try {
+      await loadConfig({ serviceName: 'test-service', projectId: 'test-project', encryption });
+      expect(mockFs.writeFileSync).toHaveBeenCalledWith('/path/to/.env', mockSecretData);
+
+      await expect(loadConfig({ serviceName: 'test-service', projectId: 'test-project' }))
+        .rejects.toThrow('Failed to initialize config for test-service from Secret Manager');
+    } finally {
+      errorSpy.mockRestore();
+      delete process.env.MSM_TEST_PASSPHRASE;
+    }
+  });
+
   it('should use custom secret name when provided', async () => {
     mockFs.existsSync.mockReturnValue(false);
     mockClient.accessSecretVersion.mockResolvedValue([{
@@ -87,6 +200,42 @@ describe('loadConfig', () => {
     });
   });
 
+  it('should read the version pinned in the lock file when frozen', async () => {
+    mockFs.existsSync.mockImplementation(file => file === '/repo/.secrets-lock');
+    mockFs.readFileSync.mockReturnValue(JSON.stringify({ production: { 'test-service': '7' } }));
+    mockClient.accessSecretVersion.mockResolvedValue([{
+      payload: {
+        data: Buffer.from('NODE_ENV=production\nENV=PROD')
+      }
+    }]);
+
+    await loadConfig({
+      serviceName: 'test-service',
+      projectId: 'test-project',
+      frozen: true,
+      environment: 'production',
+      lockPath: '/repo/.secrets-lock'
+    });
+
+    expect(mockClient.accessSecretVersion).toHaveBeenCalledWith({
+      name: 'projects/test-project/secrets/TEST-SERVICE_ENV_FILE/versions/7'
+    });
+
+    const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    try {
+      await expect(loadConfig({
+        serviceName: 'test-service',
+        projectId: 'test-project',
+        frozen: true,
+        environment: 'staging',
+        lockPath: '/repo/.secrets-lock'
+      })).rejects.toThrow('Failed to initialize config for test-service from Secret Manager');
+      expect(errorSpy).toHaveBeenCalledWith(expect.stringContaining('No version of test-service is pinned for staging'));
+    } finally {
+      errorSpy.mockRestore();
+    }
+  });
+
   it('should check required environment variables', async () => {
     mockFs.existsSync.mockReturnValue(true);
     
@@ -0,0 +1,54 @@
+import { hasConflictMarkers, mergeEnv, renderMerge } from '../merge';
+
+describe('mergeEnv', () => {
+  const base = 'PORT=3000\nDEBUG=false\nLEGACY=1\nDATABASE_URL=postgres://db\n';
+
+  it('should take the side that changed each key', () => {
+    const local = 'PORT=3000\nDEBUG=true\nDATABASE_URL=postgres://db\nFEATURE=on\n';
+    const remote = 'PORT=4000\nDEBUG=false\nLEGACY=1\nDATABASE_URL=postgres://db\nREDIS_URL=redis://cache\n';
+    const merge = mergeEnv(base, local, remote);
+
+    expect(merge.conflicts).toEqual([]);
+    expect(merge.localChanges).toEqual(['DEBUG', 'LEGACY', 'FEATURE']);
+    expect(renderMerge(merge, {}, 'dev version 2')).toBe(
+      'PORT=4000\nDEBUG=true\nDATABASE_URL=postgres://db\nREDIS_URL=redis://cache\nFEATURE=on\n'
+    );
+  });
+
+  it('should report keys changed differently on both sides as conflicts', () => {
+    const local = 'PORT=5000\nDEBUG=false\nDATABASE_URL=postgres://local\n';
+    const remote = 'PORT=4000\nDEBUG=false\nLEGACY=2\nDATABASE_URL=postgres://db\n';
+    const merge = mergeEnv(base, local, remote);
+
+    expect(merge.conflicts).toEqual([
+      { key: 'PORT', base: '3000', local: '5000', remote: '4000' },
+      { key: 'LEGACY', base: '1', local: undefined, remote: '2' }
+    ]);
+    expect(merge.localChanges).toEqual(['DATABASE_URL']);
+  });
+
+  it('should treat every differing key as a conflict without a base', () => {
+    const merge = mergeEnv(undefined, 'A=1\nB=local\n', 'B=remote\nC=3\n');
+
+    expect(merge.conflicts).toEqual([{ key: 'B', base: undefined, local: 'local', remote: 'remote' }]);
+    expect(merge.localChanges).toEqual(['A']);
+    expect(renderMerge(merge, { B: 'theirs' }, 'dev')).toBe('B=remote\nC=3\nA=1\n');
+  });
+});
+
+describe('renderMerge', () => {
+  it('should apply resolutions and mark the remaining conflicts', () => {
+    const merge = mergeEnv('A=1\nB=1\n', 'A=2\nB=2\n', 'A=3\n');
+
+    expect(renderMerge(merge, { A: 'ours' }, 'production version 7')).toBe(
+      'A=2\n<<<<<<< local\nB=2\n=======\n>>>>>>> production version 7\n'
+    );
+  });
+});
+
+describe('hasConflictMarkers', () => {
+  it('should only match markers at the start of a line', () => {
+    expect(hasConflictMarkers('A=1\n<<<<<<< local\nA=2\n=======\n>>>>>>> dev\n')).toBe(true);
+    expect(hasConflictMarkers('SEPARATOR="======="\nARROWS=<<<<<<<\n')).toBe(false);
+  });
+});
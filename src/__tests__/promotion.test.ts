@@ -0,0 +1,36 @@
+import { applyPromotionRules } from '../promotion';
+
+describe('applyPromotionRules', () => {
+  const source = 'API_URL=https://api.stg.example.com\nDATABASE_URL=postgres://stg-db\nDEBUG=true\nNEW_FLAG=on\n';
+  const target = 'API_URL=https://api.example.com\nDATABASE_URL=postgres://prod-db\nLEGACY=1\n';
+
+  it('should copy source values and drop target-only keys', () => {
+    const promoted = applyPromotionRules('A=1\nB=2\n', 'A=0\nC=3\n', {}, 'staging', 'production');
+
+    expect(promoted.content).toBe('A=1\nB=2\n');
+    expect(promoted).toEqual(expect.objectContaining({ excluded: [], kept: [], rewritten: [] }));
+  });
+
+  it('should exclude keys, keep per-environment values and apply matching rewrites', () => {
+    const promoted = applyPromotionRules(source, target, {
+      exclude: ['DEBUG', 'LEGACY'],
+      perEnvironment: ['DATABASE_URL'],
+      rewrites: [
+        { find: 'stg.example.com', replace: 'example.com', from: 'staging', to: 'production' },
+        { find: 'example.com', replace: 'example.dev', to: 'dev' }
+      ]
+    }, 'staging', 'production');
+
+    expect(promoted.content).toBe(
+      'API_URL=https://api.example.com\nDATABASE_URL=postgres://prod-db\nNEW_FLAG=on\nLEGACY=1\n'
+    );
+    expect(promoted.excluded).toEqual(['DEBUG']);
+    expect(promoted.kept).toEqual(['DATABASE_URL']);
+    expect(promoted.rewritten).toEqual(['API_URL']);
+  });
+
+  it('should fail when a per-environment key has no value in the target', () => {
+    expect(() => applyPromotionRules(source, 'API_URL=x\n', { perEnvironment: ['DATABASE_URL'] }, 'staging', 'production'))
+      .toThrow('Per-environment keys have no value in production: DATABASE_URL');
+  });
+});
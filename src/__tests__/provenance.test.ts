@@ -0,0 +1,61 @@
+import {
+  addProvenanceAnnotation,
+  collectProvenance,
+  formatProvenance,
+  parseProvenance,
+  resolveIdentity
+} from '../provenance';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+describe('provenance', () => {
+  it('should read the identity from service account credentials', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'msm-provenance-'));
+    const credentialsPath = path.join(dir, 'sa.json');
+    fs.writeFileSync(credentialsPath, JSON.stringify({ client_email: 'deploy@proj.iam.gserviceaccount.com' }));
+
+    try {
+      expect(resolveIdentity(credentialsPath)).toBe('deploy@proj.iam.gserviceaccount.com');
+      expect(resolveIdentity(path.join(dir, 'missing.json'))).toBe(os.userInfo().username);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('should collect the host and tool version', () => {
+    const provenance = collectProvenance('someone');
+
+    expect(provenance.uploadedBy).toBe('someone');
+    expect(provenance.hostname).toBe(os.hostname());
+    expect(provenance.toolVersion).toBe(require('../../package.json').version);
+  });
+
+  it('should format provenance on one line', () => {
+    expect(formatProvenance({
+      uploadedBy: 'deploy@proj.iam.gserviceaccount.com',
+      hostname: 'ci-runner',
+      branch: 'main',
+      commit: '1a2b3c4d5e6f',
+      toolVersion: '1.4.0',
+      message: 'Rotate keys'
+    })).toBe('by deploy@proj.iam.gserviceaccount.com on ci-runner from main@1a2b3c4 (msm 1.4.0): Rotate keys');
+    expect(formatProvenance({})).toBe('by unknown');
+  });
+
+  it('should ignore annotations that are not valid provenance', () => {
+    expect(parseProvenance(undefined)).toBeUndefined();
+    expect(parseProvenance('not json')).toBeUndefined();
+    expect(parseProvenance('{"uploadedBy":"someone"}')).toEqual({ uploadedBy: 'someone' });
+  });
+
+  it('should drop the oldest provenance when annotations outgrow the Secret Manager limit', () => {
+    const message = 'x'.repeat(6000);
+    let annotations: Record<string, string> = { owner: 'payments' };
+    for (const version of ['1', '2', '3']) {
+      annotations = addProvenanceAnnotation(annotations, version, { message });
+    }
+
+    expect(Object.keys(annotations)).toEqual(['owner', 'msm-provenance-2', 'msm-provenance-3']);
+  });
+});
@@ -0,0 +1,56 @@
+import { hasReferences, resolveReferences } from '../references';
+
+describe('resolveReferences', () => {
+  const services: Record<string, Record<string, string>> = {
+    api: { PUBLIC_URL: 'https://api.example.com', TOKEN: '${ref:shared.TOKEN}' },
+    shared: { TOKEN: 'abc 123', SENTRY_DSN: 'https://sentry' },
+    a: { X: '${ref:b.Y}' },
+    b: { Y: '${ref:a.X}' }
+  };
+  const loadEnv = jest.fn(async (service: string) => services[service]);
+
+  beforeEach(() => {
+    loadEnv.mockClear();
+  });
+
+  it('should return content without references unchanged', async () => {
+    const content = '# web\nPORT=3000\n';
+
+    expect(hasReferences(content)).toBe(false);
+    expect(await resolveReferences('web', content, loadEnv)).toBe(content);
+    expect(loadEnv).not.toHaveBeenCalled();
+  });
+
+  it('should resolve references to other services, nested references and the service itself', async () => {
+    const content = [
+      'API_URL=${ref:api.PUBLIC_URL}/v1',
+      'API_TOKEN=${ref:api.TOKEN}',
+      'CALLBACK=${ref:web.API_URL}/callback',
+      'DSN=${ref:shared.SENTRY_DSN}',
+      ''
+    ].join('\n');
+
+    expect(await resolveReferences('web', content, loadEnv)).toBe(
+      'API_URL=https://api.example.com/v1\n' +
+      "API_TOKEN='abc 123'\n" +
+      'CALLBACK=https://api.example.com/v1/callback\n' +
+      'DSN=https://sentry\n'
+    );
+    expect(loadEnv.mock.calls.map(([service]) => service)).toEqual(['api', 'shared']);
+  });
+
+  it('should report every dangling reference', async () => {
+    await expect(resolveReferences('web', 'A=${ref:api.MISSING}\nB=${ref:nope.X}\n', loadEnv)).rejects.toThrow(
+      'Dangling references in web: ${ref:api.MISSING} in web.A (api has no MISSING), ${ref:nope.X} in web.B (no values for nope)'
+    );
+  });
+
+  it('should detect cycles', async () => {
+    await expect(resolveReferences('web', 'A=${ref:a.X}\n', loadEnv)).rejects.toThrow(
+      'Reference cycle: a.X -> b.Y -> a.X'
+    );
+    await expect(resolveReferences('web', 'A=${ref:web.A}\n', loadEnv)).rejects.toThrow(
+      'Reference cycle: web.A -> web.A'
+    );
+  });
+});
@@ -0,0 +1,54 @@
+import { assertValidEnv, validateEnv } from '../schema';
+
+describe('validateEnv', () => {
+  const schema = {
+    API_URL: { type: 'url' as const, required: true },
+    PORT: { type: 'int' as const },
+    DEBUG: { type: 'bool' as const },
+    LOG_LEVEL: { type: 'enum' as const, values: ['debug', 'info', 'error'], allowedValues: { production: ['info', 'error'] } },
+    REGION: { type: 'regex' as const, pattern: '[a-z]+-[a-z]+\\d' },
+    SENTRY_DSN: { required: ['production'] }
+  };
+
+  it('should accept env files that match the schema', () => {
+    const content = 'API_URL=https://api.example.com\nPORT=8080\nDEBUG=false\nLOG_LEVEL=info\nREGION=europe-west1\nSENTRY_DSN=https://sentry\n';
+
+    expect(validateEnv(content, schema, 'production')).toEqual([]);
+  });
+
+  it('should report every problem without the values', () => {
+    const content = 'API_URL=api.example.com\nPORT=80a\nDEBUG=yes\nLOG_LEVEL=trace\nREGION=Europe\n';
+
+    expect(validateEnv(content, schema, 'staging')).toEqual([
+      'API_URL must be an absolute URL',
+      'PORT must be an integer',
+      'DEBUG must be true or false',
+      'LOG_LEVEL must be one of debug, info, error',
+      'REGION must match [a-z]+-[a-z]+\\d'
+    ]);
+  });
+
+  it('should apply required keys and allowed values per environment', () => {
+    const content = 'API_URL=https://api.example.com\nLOG_LEVEL=debug\n';
+
+    expect(validateEnv(content, schema, 'staging')).toEqual([]);
+    expect(validateEnv(content, schema, 'production')).toEqual([
+      'LOG_LEVEL must be one of info, error in production',
+      'SENTRY_DSN is required in production'
+    ]);
+    // Without an environment the per-environment rules are skipped
+    expect(validateEnv(content, schema)).toEqual([]);
+  });
+
+  it('should treat empty values as missing', () => {
+    expect(validateEnv('API_URL=\n', schema)).toEqual(['API_URL is required']);
+  });
+});
+
+describe('assertValidEnv', () => {
+  it('should throw with every problem listed', () => {
+    expect(() => assertValidEnv('PORT=abc\n', { PORT: { type: 'int' }, HOST: { required: true } }, 'api', 'production')).toThrow(
+      'api does not match its schema in production: PORT must be an integer; HOST is required'
+    );
+  });
+});
@@ -48,8 +48,8 @@ describe('Types', () => {
         ]
       };
 
-      expect(config.serviceAccountPaths.staging).toBe('staging-sa.json');
-      expect(config.projectIds.staging).toBe('test-staging');
+      expect(config.serviceAccountPaths?.staging).toBe('staging-sa.json');
+      expect(config.projectIds?.staging).toBe('test-staging');
       expect(config.services).toHaveLength(1);
       expect(config.services[0].name).toBe('app');
     });
@@ -1,8 +1,10 @@
 #!/usr/bin/env node
 
 import { GcpMonorepoSecretManager } from './GcpMonorepoSecretManager';
-import { Environment } from './types';
-import { ConfigManager } from './ConfigManager';
+import { BackendConfig, EnvConflict, Environment, MergeStrategy } from './types';
+import { ConfigManager, SHARED_LAYER_NAME } from './ConfigManager';
+import { generateEncryptionKey } from './encryption';
+import { maskValue } from './envFile';
 import * as readline from 'readline';
 import * as fs from 'fs';
 import * as path from 'path';
@@ -20,6 +22,11 @@ const question = (prompt: string): Promise<string> => {
   });
 };
 
+const getArgValue = (args: string[], ...names: string[]): string | undefined => {
+  const index = args.findIndex(arg => names.includes(arg));
+  return index !== -1 && args[index + 1] ? args[index + 1] : undefined;
+};
+
 const showHelp = () => {
   console.log(`
 GCP Monorepo Secret Manager CLI
@@ -29,18 +36,41 @@ Usage:
 
 Options:
   --upload, -u     Upload environment variables to Firebase Secret Manager
+  --force          Upload even when unchanged or when latest changed since the last sync (with --upload), or roll back to a version that does not match the schema (with --rollback)
+  --message, -m    Note why, recorded with the new version's provenance (with --upload, --rollback and --promote)
   --download, -d   Download environment variables from Firebase Secret Manager
+  --strategy       Resolve keys changed locally and remotely since the last sync: ours, theirs or merge (default; asks, or writes conflict markers) (only with --download)
   --peek, -p       Display environment variables in the terminal
+  --validate       Check local env files against their service's schema without uploading
+  --diff           Show added, removed and changed keys between the local env file and Secret Manager
+  --show-values    Show unmasked values in --diff, --promote and download conflict output
+  --history        List every version of a service's secret with the number of keys changed
+  --version        Read a specific secret version instead of latest (with --download, --peek and --set)
+  --rollback       Re-publish a previous version as the new latest version (requires --to)
+  --to             Version number to roll back to (with --rollback), or target environment (with --promote)
+  --promote        Copy a service's env file from one environment to another, applying promotion rules (requires --from and --to)
+  --from           Source environment (only with --promote)
+  --yes, -y        Promote without asking for confirmation after the diff
   --cleanup, -c    Clean up old secret versions based on delete policy
-  --service, -s    Specify service name (use --list to see available services) or 'all'
-  --stg            Use staging environment (.stg.env)
-  --prod           Use production environment (.prod.env)
+  --enable-version Re-enable a version disabled by cleanup (takes a version number)
+  --reconcile      Apply configured labels to existing secrets and report replication/CMEK mismatches
+  --lock           Pin each service's current latest version in .secrets-lock
+  --frozen         Read the versions pinned in .secrets-lock (with --download, --peek and --set)
+  --service, -s    Specify service name (use --list to see available services), 'shared' for the shared layer, or 'all'
+  --env, -e        Use a named environment from configuration (e.g. dev, qa, preview)
+  --stg            Use staging environment (.stg.env), same as --env staging
+  --prod           Use production environment (.prod.env), same as --env production
   --override-sa    Skip loading service account (for CI/CD)
+  --backend        Secret storage backend: gcp (default) or filesystem (offline, local directory)
+  --backend-path   Directory for the filesystem backend (default: .secrets-store)
+  --concurrency    Number of services processed at once with --service all (default: 4)
+  --dry-run        Show what upload, cleanup, download/set, rollback, enable-version, reconcile, lock and promote would change without changing anything
   --set            Copy the environment file to target location after download (only with --download)
   --init           Generate a .secrets-config template file
-  --list           List available services from configuration
+  --list           List available services and environments from configuration
   --add-service    Add a new service to existing configuration
   --remove-service Remove a service from configuration
+  --generate-key   Write a new random encryption key to the given file (for encryption.keyFile)
   --config         Specify custom config file path (default: .secrets-config)
   --help, -h       Show this help message
 
@@ -49,14 +79,31 @@ Options:
     msm --list
     msm --add-service
     msm --remove-service
+    msm --generate-key .secrets-prod.key
     msm --upload --service all --prod
     msm --peek -service all --stg
     msm --download --service all --prod --set
+    msm --download --service all --prod --set --concurrency 8
     msm --upload --service api --stg
+    msm --upload --service api --env qa
+    msm --upload --service api --prod --message "Rotate Stripe key"
     msm --peek -service api --stg
     msm --download --service api --stg
+    msm --download --service api --stg --strategy theirs
     msm --cleanup --service api --prod
+    msm --cleanup --service all --prod --dry-run
+    msm --diff --service all --prod
+    msm --validate --service all --prod
+    msm --history --service api --prod
+    msm --download --service api --prod --version 12 --set
+    msm --lock --service all --prod
+    msm --download --service all --prod --frozen --set
+    msm --rollback --service api --prod --to 12
+    msm --promote --service api --from stg --to prod
+    msm --enable-version 9 --service api --prod
+    msm --reconcile --service all --prod --dry-run
     msm -u -s socket --prod --override-sa
+    msm -u -s api --env dev --backend filesystem
 `);
   process.exit(0);
 };
@@ -109,7 +156,7 @@ const initializeConfig = async () => {
   if (existingConfig?.services?.length > 0) {
     console.log("\nExisting services found:");
     existingConfig.services.forEach((service: any, index: number) => {
-      console.log(`  ${index + 1}. ${service.name} -> ${service.targetPath}`);
+      console.log(`  ${index + 1}. ${service.name} -> ${service.targetPath || service.targets?.map((target: any) => target.path).join(", ")}`);
     });
     
     const keepExisting = await question("\nKeep existing services and add new ones? [Y/n]: ");
@@ -241,11 +288,34 @@ const listServices = (configPath?: string) => {
     console.log("\n📋 Available services:");
     services.forEach(service => {
       const config = configManager.getServiceByName(service)!;
-      console.log(`  • ${service} (${config.secretPrefix})`);
+      console.log(`  • ${service} (${config.secretPrefix})${config.storageMode === "per-key" ? " [per-key]" : ""}`);
       console.log(`    Environment: ${config.envPath}`);
-      console.log(`    Target: ${config.targetPath}`);
+      if (config.targetPath) {
+        console.log(`    Target: ${config.targetPath}`);
+      }
+      (config.targets || []).forEach(target => {
+        console.log(`    Target: ${target.path} (${target.format || "dotenv"})`);
+      });
+      if (config.schema) {
+        console.log(`    Schema: ${typeof config.schema === "string" ? config.schema : `${Object.keys(config.schema).length} variables`}`);
+      }
       console.log();
     });
+
+    const shared = configManager.getSharedLayer();
+    if (shared) {
+      console.log(`🧩 Shared layer (--service ${SHARED_LAYER_NAME}, merged under every service by --set):`);
+      console.log(`  • ${SHARED_LAYER_NAME} (${shared.secretPrefix})`);
+      console.log(`    Environment: ${shared.envPath}`);
+      console.log();
+    }
+
+    console.log("🌍 Available environments:");
+    configManager.getEnvironmentNames().forEach(environment => {
+      const config = configManager.getEnvironment(environment);
+      console.log(`  • ${environment} (.${configManager.getEnvSuffix(environment)}.env) -> ${config.projectId}`);
+    });
+    console.log();
     
     process.exit(0);
   } catch (error) {
@@ -286,6 +356,11 @@ const addService = async (configPath?: string) => {
         continue;
       }
 
+      if (serviceName === SHARED_LAYER_NAME && configManager.getSharedLayer()) {
+        console.log(`❌ '${SHARED_LAYER_NAME}' is the name of the shared layer. Please choose a different name.`);
+        continue;
+      }
+
       break;
     }
 
@@ -311,24 +386,23 @@ const addService = async (configPath?: string) => {
     fs.writeFileSync(configFilePath, JSON.stringify(config, null, 2));
 
     // Create environment files
-    const stagingFile = `${environmentsDir}/.${serviceName}.stg.env`;
-    const productionFile = `${environmentsDir}/.${serviceName}.prod.env`;
-
-    if (!fs.existsSync(stagingFile)) {
-      fs.writeFileSync(stagingFile, '# Add your staging environment variables here\n');
-      console.log(`✅ Created ${stagingFile}`);
-    }
-
-    if (!fs.existsSync(productionFile)) {
-      fs.writeFileSync(productionFile, '# Add your production environment variables here\n');
-      console.log(`✅ Created ${productionFile}`);
+    const envFiles = configManager.getEnvironmentNames().map(environment => ({
+      environment,
+      file: `${environmentsDir}/.${serviceName}.${configManager.getEnvSuffix(environment)}.env`
+    }));
+
+    for (const { environment, file } of envFiles) {
+      if (!fs.existsSync(file)) {
+        fs.writeFileSync(file, `# Add your ${environment} environment variables here\n`);
+        console.log(`✅ Created ${file}`);
+      }
     }
 
     console.log(`\n✅ Service '${serviceName}' added successfully!`);
     console.log(`📝 Configuration updated in ${configFilePath}`);
     console.log("\n🔧 Next steps:");
-    console.log(`1. Edit your environment files: ${stagingFile} and ${productionFile}`);
-    console.log(`2. Upload them: freetech-secrets --upload --service ${serviceName} --stg/--prod`);
+    console.log(`1. Edit your environment files: ${envFiles.map(({ file }) => file).join(", ")}`);
+    console.log(`2. Upload them: msm --upload --service ${serviceName} --env <environment>`);
 
   } catch (error) {
     console.error(`❌ Error: ${(error as Error).message}`);
@@ -407,39 +481,170 @@ const removeService = async (configPath?: string) => {
   }
 };
 
+type Operation =
+  | "upload"
+  | "download"
+  | "peek"
+  | "cleanup"
+  | "diff"
+  | "history"
+  | "rollback"
+  | "enable-version"
+  | "reconcile"
+  | "lock"
+  | "promote"
+  | "validate";
+
+interface OperationOptions {
+  environment: Environment;
+  shouldSetEnv: boolean;
+  overrideSa: boolean;
+  configPath?: string;
+  showValues: boolean;
+  version?: string;
+  frozen: boolean;
+  rollbackTo?: string;
+  enableVersion?: string;
+  fromEnvironment?: Environment;
+  assumeYes: boolean;
+  strategy?: MergeStrategy;
+  message?: string;
+  force: boolean;
+  dryRun: boolean;
+  concurrency?: number;
+  backend?: BackendConfig;
+}
+
+const OPERATION_FLAGS: Record<string, Operation> = {
+  "--upload": "upload",
+  "-u": "upload",
+  "--download": "download",
+  "-d": "download",
+  "--peek": "peek",
+  "-p": "peek",
+  "--cleanup": "cleanup",
+  "-c": "cleanup",
+  "--diff": "diff",
+  "--history": "history",
+  "--rollback": "rollback",
+  "--enable-version": "enable-version",
+  "--reconcile": "reconcile",
+  "--lock": "lock",
+  "--promote": "promote",
+  "--validate": "validate",
+};
+
 const handleOperation = async (
-  operation: "upload" | "download" | "peek" | "cleanup",
+  operation: Operation,
   serviceName: string,
-  environment: Environment,
-  shouldSetEnv: boolean,
-  overrideSa: boolean,
-  configPath?: string
+  options: OperationOptions
 ) => {
-      const secretManager = new GcpMonorepoSecretManager({
+  const {
+    environment, shouldSetEnv, overrideSa, configPath, showValues, version, frozen, rollbackTo, enableVersion, fromEnvironment,
+    assumeYes, strategy, message, force, dryRun, concurrency, backend
+  } = options;
+  const secretManager = new GcpMonorepoSecretManager({
     environment,
     overrideSa,
-    configPath
+    configPath,
+    dryRun,
+    concurrency,
+    backend
   });
 
   switch (operation) {
     case "upload":
-      await secretManager.uploadEnv(serviceName);
+      await secretManager.uploadEnv(serviceName, { force, message });
       break;
     case "download":
-      await secretManager.downloadEnv(serviceName);
-      if (shouldSetEnv) {
-        await secretManager.setEnv(serviceName);
-      }
+      await secretManager.downloadEnv(serviceName, {
+        version,
+        frozen,
+        strategy,
+        // Ask about conflicts when someone is at the terminal; otherwise they get conflict markers
+        resolveConflict: process.stdin.isTTY
+          ? (conflict, service) => askConflict(conflict, service, environment, showValues)
+          : undefined,
+        // Set each service right after its download, so one failed download does not block the others
+        set: shouldSetEnv,
+      });
       break;
     case "peek":
-      await secretManager.peekEnv(serviceName);
+      await secretManager.peekEnv(serviceName, { version, frozen });
       break;
     case "cleanup":
       await secretManager.cleanupVersions(serviceName);
       break;
+    case "diff":
+      await secretManager.diffEnv(serviceName, { showValues });
+      break;
+    case "history":
+      await secretManager.historyEnv(serviceName);
+      break;
+    case "rollback":
+      await secretManager.rollbackEnv(serviceName, rollbackTo!, { message, force });
+      break;
+    case "enable-version":
+      await secretManager.enableVersion(serviceName, enableVersion!);
+      break;
+    case "reconcile":
+      await secretManager.reconcileSecrets(serviceName);
+      break;
+    case "lock":
+      await secretManager.lockVersions(serviceName);
+      break;
+    case "promote":
+      await secretManager.promoteEnv(serviceName, fromEnvironment!, {
+        message,
+        showValues,
+        confirm: assumeYes
+          ? undefined
+          : async prompt => ["y", "yes"].includes((await question(`${prompt} [y/N]: `)).toLowerCase()),
+      });
+      break;
+    case "validate":
+      await secretManager.validateEnv(serviceName);
+      break;
+  }
+};
+
+const askConflict = async (
+  conflict: EnvConflict,
+  serviceName: string,
+  environment: Environment,
+  showValues: boolean
+): Promise<"ours" | "theirs"> => {
+  const display = (value?: string) =>
+    value === undefined ? "(not set)" : showValues ? value : maskValue(value);
+
+  console.log(`\n⚠️  ${conflict.key} in ${serviceName} changed both locally and in ${environment}:`);
+  console.log(`  base:   ${display(conflict.base)}`);
+  console.log(`  local:  ${display(conflict.local)}`);
+  console.log(`  remote: ${display(conflict.remote)}`);
+
+  while (true) {
+    const answer = (await question("Keep [l]ocal or take [r]emote? ")).toLowerCase();
+    if (answer === "l" || answer === "local") {
+      return "ours";
+    }
+    if (answer === "r" || answer === "remote") {
+      return "theirs";
+    }
   }
 };
 
+const generateKeyFile = (keyPath: string) => {
+  if (fs.existsSync(keyPath)) {
+    console.error(`❌ Error: ${keyPath} already exists. Refusing to overwrite an encryption key.`);
+    process.exit(1);
+  }
+
+  fs.writeFileSync(keyPath, generateEncryptionKey() + "\n", { mode: 0o600 });
+  console.log(`🔐 Wrote a new encryption key to ${keyPath}`);
+  console.log("Keep it out of version control and share it only with people who may read these secrets.");
+  console.log(`Reference it from .secrets-config with "encryption": { "keyFile": "${keyPath}" }`);
+};
+
 const main = async () => {
   const args = process.argv.slice(2);
 
@@ -470,6 +675,17 @@ const main = async () => {
     return;
   }
 
+  // Handle generate key command
+  if (args.includes("--generate-key")) {
+    const keyPath = getArgValue(args, "--generate-key");
+    if (!keyPath) {
+      console.error("❌ Error: --generate-key requires a file path");
+      process.exit(1);
+    }
+    generateKeyFile(keyPath!);
+    process.exit(0);
+  }
+
   // Handle remove service command
   if (args.includes("--remove-service")) {
     const configIndex = args.findIndex(arg => arg === "--config");
@@ -483,7 +699,27 @@ const main = async () => {
   const overrideSa = args.includes("--override-sa");
   const isStaging = args.includes("--stg");
   const isProduction = args.includes("--prod");
+  const envIndex = args.findIndex(arg => arg === "--env" || arg === "-e");
+  const envName = getArgValue(args, "--env", "-e");
   const shouldSetEnv = args.includes("--set");
+  const showValues = args.includes("--show-values");
+  const force = args.includes("--force");
+  const dryRun = args.includes("--dry-run");
+  const backendType = getArgValue(args, "--backend");
+  const backendPath = getArgValue(args, "--backend-path");
+  const concurrencyIndex = args.findIndex(arg => arg === "--concurrency");
+  const concurrencyValue = getArgValue(args, "--concurrency");
+  const versionIndex = args.findIndex(arg => arg === "--version");
+  const version = getArgValue(args, "--version");
+  const frozen = args.includes("--frozen");
+  const toValue = getArgValue(args, "--to");
+  const enableVersion = getArgValue(args, "--enable-version");
+  const fromName = getArgValue(args, "--from");
+  const assumeYes = args.includes("--yes") || args.includes("-y");
+  const strategyIndex = args.findIndex(arg => arg === "--strategy");
+  const strategy = getArgValue(args, "--strategy");
+  const messageIndex = args.findIndex(arg => arg === "--message" || arg === "-m");
+  const message = getArgValue(args, "--message", "-m");
   const flag = args[0].toLowerCase();
   const configPath = configIndex !== -1 && args[configIndex + 1] ? args[configIndex + 1] : undefined;
 
@@ -495,6 +731,89 @@ const main = async () => {
     process.exit(1);
   }
 
+  if (force && !["--upload", "-u", "--rollback"].includes(flag)) {
+    console.error("❌ Error: --force flag can only be used with upload and rollback");
+    process.exit(1);
+  }
+
+  if (args.includes("--backend") && backendType !== "gcp" && backendType !== "filesystem") {
+    console.error("❌ Error: --backend must be either 'gcp' or 'filesystem'");
+    process.exit(1);
+  }
+
+  if (backendPath && backendType !== "filesystem") {
+    console.error("❌ Error: --backend-path can only be used with --backend filesystem");
+    process.exit(1);
+  }
+
+  if (concurrencyIndex !== -1 && (!concurrencyValue || !/^[1-9]\d*$/.test(concurrencyValue))) {
+    console.error("❌ Error: --concurrency requires a positive integer");
+    process.exit(1);
+  }
+
+  if (versionIndex !== -1) {
+    if (!version || !/^(\d+|latest)$/.test(version)) {
+      console.error("❌ Error: --version requires a version number (or 'latest')");
+      process.exit(1);
+    }
+
+    if (!["--download", "-d", "--peek", "-p"].includes(flag)) {
+      console.error("❌ Error: --version flag can only be used with download, peek and set");
+      process.exit(1);
+    }
+  }
+
+  if (frozen) {
+    if (!["--download", "-d", "--peek", "-p"].includes(flag)) {
+      console.error("❌ Error: --frozen flag can only be used with download, peek and set");
+      process.exit(1);
+    }
+
+    if (versionIndex !== -1) {
+      console.error("❌ Error: Cannot use --frozen together with --version");
+      process.exit(1);
+    }
+  }
+
+  if (flag === "--rollback" && (!toValue || !/^\d+$/.test(toValue))) {
+    console.error("❌ Error: --rollback requires --to <version number>");
+    process.exit(1);
+  }
+
+  if (messageIndex !== -1) {
+    if (!message) {
+      console.error("❌ Error: --message requires a text argument");
+      process.exit(1);
+    }
+
+    if (!["--upload", "-u", "--rollback", "--promote"].includes(flag)) {
+      console.error("❌ Error: --message flag can only be used with upload, rollback and promote");
+      process.exit(1);
+    }
+  }
+
+  if ((fromName || assumeYes) && flag !== "--promote") {
+    console.error("❌ Error: --from and --yes flags can only be used with promote");
+    process.exit(1);
+  }
+
+  if (strategyIndex !== -1) {
+    if (!strategy || !["ours", "theirs", "merge"].includes(strategy)) {
+      console.error("❌ Error: --strategy must be one of ours, theirs or merge");
+      process.exit(1);
+    }
+
+    if (!["--download", "-d"].includes(flag)) {
+      console.error("❌ Error: --strategy flag can only be used with download");
+      process.exit(1);
+    }
+  }
+
+  if (flag === "--enable-version" && (!enableVersion || !/^\d+$/.test(enableVersion))) {
+    console.error("❌ Error: --enable-version requires a version number");
+    process.exit(1);
+  }
+
   if (serviceIndex === -1 || !args[serviceIndex + 1]) {
     console.error(
       "❌ Error: --service flag with service name or 'all' is required. Use --list to see available services."
@@ -502,88 +821,123 @@ const main = async () => {
     process.exit(1);
   }
 
-  if (!isStaging && !isProduction) {
-    console.error("❌ Error: Must specify either --stg or --prod");
+  if (envIndex !== -1 && !envName) {
+    console.error("❌ Error: --env flag requires an environment name. Use --list to see available environments.");
     process.exit(1);
   }
 
-  if (isStaging && isProduction) {
-    console.error("❌ Error: Cannot specify both --stg and --prod");
+  const environmentFlags = [isStaging, isProduction, envIndex !== -1].filter(Boolean).length;
+
+  if (flag === "--promote") {
+    if (!fromName || !toValue) {
+      console.error("❌ Error: --promote requires --from <environment> and --to <environment>");
+      process.exit(1);
+    }
+
+    if (environmentFlags > 0) {
+      console.error("❌ Error: --promote takes its environments from --from and --to, not --env, --stg or --prod");
+      process.exit(1);
+    }
+
+    // Without a terminal the confirmation prompt can never be answered
+    if (!assumeYes && !dryRun && !process.stdin.isTTY) {
+      console.error("❌ Error: --promote asks for confirmation, which needs a terminal. Pass --yes to promote without asking.");
+      process.exit(1);
+    }
+  } else if (environmentFlags === 0) {
+    console.error("❌ Error: Must specify an environment with --env <name>, --stg or --prod");
+    process.exit(1);
+  }
+
+  if (environmentFlags > 1) {
+    console.error("❌ Error: Cannot specify more than one of --env, --stg and --prod");
     process.exit(1);
   }
 
   const serviceName = args[serviceIndex + 1].toLowerCase();
-  const environment: Environment = isStaging ? "staging" : "production";
 
-  // Validate service name (unless it's "all")
-  if (serviceName !== "all") {
-    try {
-      const configManager = new ConfigManager(configPath);
-      const availableServices = configManager.getServiceNames();
+  if ((flag === "--rollback" || flag === "--enable-version") && serviceName === "all") {
+    console.error(`❌ Error: ${flag} must target a single service`);
+    process.exit(1);
+  }
+  let environment: Environment = isStaging ? "staging" : "production";
+  let fromEnvironment: Environment | undefined;
+
+  try {
+    const configManager = new ConfigManager(configPath);
+
+    if (flag === "--promote") {
+      const resolve = (name: string) => {
+        const resolved = configManager.resolveEnvironmentName(name);
+        if (!resolved) {
+          console.error(
+            `❌ Error: Environment '${name}' not found. Available environments: ${configManager.getEnvironmentNames().join(", ")}`
+          );
+          process.exit(1);
+        }
+        return resolved!;
+      };
+      fromEnvironment = resolve(fromName!);
+      environment = resolve(toValue!);
+    }
+
+    if (envName) {
+      const resolvedEnvironment = configManager.resolveEnvironmentName(envName);
+      if (!resolvedEnvironment) {
+        console.error(
+          `❌ Error: Environment '${envName}' not found. Available environments: ${configManager.getEnvironmentNames().join(", ")}`
+        );
+        process.exit(1);
+      }
+      environment = resolvedEnvironment!;
+    }
+
+    // Validate service name (unless it's "all")
+    if (serviceName !== "all") {
+      const availableServices = [
+        ...(configManager.getSharedLayer() ? [SHARED_LAYER_NAME] : []),
+        ...configManager.getServiceNames()
+      ];
       if (!availableServices.includes(serviceName)) {
         console.error(
           `❌ Error: Service '${serviceName}' not found. Available services: ${availableServices.join(", ")}, all`
         );
         process.exit(1);
       }
-    } catch (error) {
-      console.error(`❌ Error: ${(error as Error).message}`);
-      process.exit(1);
     }
+  } catch (error) {
+    console.error(`❌ Error: ${(error as Error).message}`);
+    process.exit(1);
   }
 
   try {
-    switch (flag) {
-      case "--upload":
-      case "-u":
-        await handleOperation(
-          "upload",
-          serviceName,
-          environment,
-          shouldSetEnv,
-          overrideSa,
-          configPath
-        );
-        break;
-      case "--download":
-      case "-d":
-        await handleOperation(
-          "download",
-          serviceName,
-          environment,
-          shouldSetEnv,
-          overrideSa,
-          configPath
-        );
-        break;
-      case "--peek":
-      case "-p":
-        await handleOperation(
-          "peek",
-          serviceName,
-          environment,
-          shouldSetEnv,
-          overrideSa,
-          configPath
-        );
-        break;
-      case "--cleanup":
-      case "-c":
-        await handleOperation(
-          "cleanup",
-          serviceName,
-          environment,
-          shouldSetEnv,
-          overrideSa,
-          configPath
-        );
-        break;
-      default:
-        console.error(
-          "❌ Error: Invalid flag. Use --help to see available options."
-        );
-        process.exit(1);
+    const operation = OPERATION_FLAGS[flag];
+    if (!operation) {
+      console.error(
+        "❌ Error: Invalid flag. Use --help to see available options."
+      );
+      process.exit(1);
     }
+
+    await handleOperation(operation, serviceName, {
+      environment,
+      shouldSetEnv,
+      overrideSa,
+      configPath,
+      showValues,
+      version,
+      frozen,
+      rollbackTo: toValue,
+      enableVersion,
+      fromEnvironment,
+      assumeYes,
+      strategy: strategy as MergeStrategy | undefined,
+      message,
+      force,
+      dryRun,
+      concurrency: concurrencyValue ? parseInt(concurrencyValue) : undefined,
+      backend: backendType ? { type: backendType as BackendConfig["type"], path: backendPath } : undefined
+    });
     
     // Exit successfully after completing the operation
     process.exit(0);
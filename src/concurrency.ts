@@ -0,0 +1,36 @@
+/**
+ * Runs the worker over every item with at most `limit` calls in flight at once.
+ * Results keep the order of the input items. The worker is expected to handle its own errors.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let nextIndex = 0;
+
+  const runnerCount = Math.min(Math.max(1, Math.floor(limit) || 1), items.length);
+  const runners = Array.from({ length: runnerCount }, async () => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      results[index] = await worker(items[index], index);
+    }
+  });
+
+  await Promise.all(runners);
+  return results;
+}
+
+/**
+ * Returns a lock that runs the tasks given to it one at a time, in the order they were given.
+ * A failed task does not stop the ones queued after it.
+ */
+export function createLock(): <T>(task: () => Promise<T>) => Promise<T> {
+  let tail: Promise<unknown> = Promise.resolve();
+  return task => {
+    const result = tail.then(task);
+    tail = result.catch(() => undefined);
+    return result;
+  };
+}
@@ -0,0 +1,38 @@
+// Lookup table for the Castagnoli polynomial (reversed 0x82F63B78), the CRC variant Secret Manager uses
+const CRC32C_TABLE = Array.from({ length: 256 }, (_, index) => {
+  let crc = index;
+  for (let bit = 0; bit < 8; bit++) {
+    crc = crc & 1 ? (crc >>> 1) ^ 0x82f63b78 : crc >>> 1;
+  }
+  return crc >>> 0;
+});
+
+/**
+ * Computes the CRC32C checksum of the data as an unsigned 32-bit integer
+ */
+export function crc32c(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc = CRC32C_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Checks payload data against the checksum returned with it. Secret Manager returns the checksum
+ * as a number, string or Long depending on the client, so it is compared as a decimal string.
+ * Versions stored without a checksum cannot be verified and are accepted.
+ */
+export function verifyCrc32c(data: Buffer, expected: unknown, secretName: string): void {
+  if (expected === undefined || expected === null) {
+    return;
+  }
+
+  const actual = crc32c(data);
+  if (String(expected) !== String(actual)) {
+    throw new Error(
+      `Checksum mismatch for secret ${secretName}: expected CRC32C ${String(expected)} but received data has ${actual}. ` +
+      `The payload is corrupted or truncated and was not written.`
+    );
+  }
+}
@@ -0,0 +1,27 @@
+import { initSecretManagerClient } from "./initSecretManagerClient";
+import { GcpSecretBackend } from "./GcpSecretBackend";
+import { FileSystemSecretBackend } from "./FileSystemSecretBackend";
+import { SecretBackend } from "./SecretBackend";
+import { BackendConfig } from "./types";
+
+export const DEFAULT_FILESYSTEM_BACKEND_PATH = ".secrets-store";
+
+/**
+ * Create the secret backend described by a backend configuration
+ *
+ * @param config Backend type and options (defaults to Google Cloud Secret Manager)
+ * @param projectId Google Cloud project ID used by the Secret Manager client
+ * @param keyFilename Service account key file the Secret Manager client authenticates with
+ * @returns SecretBackend instance
+ */
+export function createSecretBackend(
+  config: BackendConfig = { type: "gcp" },
+  projectId?: string,
+  keyFilename?: string
+): SecretBackend {
+  if (config.type === "filesystem") {
+    return new FileSystemSecretBackend(config.path || DEFAULT_FILESYSTEM_BACKEND_PATH);
+  }
+
+  return new GcpSecretBackend(initSecretManagerClient(projectId, keyFilename));
+}
@@ -0,0 +1,171 @@
+import crypto from "crypto";
+import fs from "fs";
+import { EncryptionConfig } from "./types";
+
+/**
+ * First line of every encrypted payload. Payloads without it are plaintext, so encrypted and
+ * plaintext versions of the same secret can coexist.
+ */
+const ENCRYPTED_HEADER = "MSM-ENCRYPTED:v1\n";
+
+const KEY_LENGTH = 32;
+const IV_LENGTH = 12;
+const SALT_LENGTH = 16;
+
+interface EncryptedEnvelope {
+  /** How the key-encryption key was obtained */
+  kdf: "keyfile" | "scrypt";
+  /** scrypt salt for passphrase-derived keys */
+  salt?: string;
+  /** Random per-payload data key, encrypted with the key-encryption key */
+  wrappedKey: string;
+  wrapIv: string;
+  wrapTag: string;
+  /** Payload encrypted with the data key */
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+export function isEncryptedPayload(payload: string): boolean {
+  return payload.startsWith(ENCRYPTED_HEADER);
+}
+
+/**
+ * Generates a random key suitable for an encryption keyFile (base64 encoded)
+ */
+export function generateEncryptionKey(): string {
+  return crypto.randomBytes(KEY_LENGTH).toString("base64");
+}
+
+function seal(key: Buffer, plaintext: Buffer): { iv: string; tag: string; data: string } {
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const cipher = crypto.createCipheriv("aes-256-gcm", key, iv);
+  const data = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return {
+    iv: iv.toString("base64"),
+    tag: cipher.getAuthTag().toString("base64"),
+    data: data.toString("base64"),
+  };
+}
+
+function open(key: Buffer, sealed: { iv: string; tag: string; data: string }): Buffer {
+  const decipher = crypto.createDecipheriv("aes-256-gcm", key, Buffer.from(sealed.iv, "base64"));
+  decipher.setAuthTag(Buffer.from(sealed.tag, "base64"));
+  return Buffer.concat([decipher.update(Buffer.from(sealed.data, "base64")), decipher.final()]);
+}
+
+/**
+ * Envelope encryption for env payloads. Each payload is encrypted (AES-256-GCM) with a random
+ * data key, and the data key is encrypted with a key-encryption key read from a local keyfile
+ * or derived from a passphrase environment variable.
+ */
+export class EnvelopeEncryption {
+  private config: EncryptionConfig;
+  private fileKey?: Buffer;
+  private derivedKeys = new Map<string, Buffer>();
+  private encryptSalt?: string;
+
+  constructor(config: EncryptionConfig) {
+    this.config = config;
+  }
+
+  encrypt(content: string): string {
+    const dataKey = crypto.randomBytes(KEY_LENGTH);
+    const sealedData = seal(dataKey, Buffer.from(content, "utf8"));
+
+    let envelope: EncryptedEnvelope;
+    if (this.config.keyFile) {
+      const wrapped = seal(this.getFileKey(), dataKey);
+      envelope = {
+        kdf: "keyfile",
+        wrappedKey: wrapped.data,
+        wrapIv: wrapped.iv,
+        wrapTag: wrapped.tag,
+        ...sealedData,
+      };
+    } else {
+      // One salt per instance keeps scrypt to a single derivation for a whole upload
+      this.encryptSalt = this.encryptSalt || crypto.randomBytes(SALT_LENGTH).toString("base64");
+      const wrapped = seal(this.getPassphraseKey(this.encryptSalt), dataKey);
+      envelope = {
+        kdf: "scrypt",
+        salt: this.encryptSalt,
+        wrappedKey: wrapped.data,
+        wrapIv: wrapped.iv,
+        wrapTag: wrapped.tag,
+        ...sealedData,
+      };
+    }
+
+    return ENCRYPTED_HEADER + JSON.stringify(envelope);
+  }
+
+  decrypt(payload: string): string {
+    if (!isEncryptedPayload(payload)) {
+      return payload;
+    }
+
+    const envelope: EncryptedEnvelope = JSON.parse(payload.slice(ENCRYPTED_HEADER.length));
+    const keyEncryptionKey = envelope.kdf === "keyfile"
+      ? this.getFileKey()
+      : this.getPassphraseKey(envelope.salt || "");
+
+    try {
+      const dataKey = open(keyEncryptionKey, {
+        iv: envelope.wrapIv,
+        tag: envelope.wrapTag,
+        data: envelope.wrappedKey,
+      });
+      return open(dataKey, envelope).toString("utf8");
+    } catch {
+      throw new Error("Failed to decrypt payload: wrong encryption key or corrupted data");
+    }
+  }
+
+  private getFileKey(): Buffer {
+    if (!this.config.keyFile) {
+      throw new Error("Payload was encrypted with a keyfile, but no encryption.keyFile is configured");
+    }
+
+    if (!this.fileKey) {
+      if (!fs.existsSync(this.config.keyFile)) {
+        throw new Error(`Encryption key file not found at ${this.config.keyFile}`);
+      }
+
+      const raw = fs.readFileSync(this.config.keyFile);
+      const text = raw.toString("utf8").trim();
+      const key = raw.length === KEY_LENGTH
+        ? raw
+        : /^[0-9a-fA-F]{64}$/.test(text)
+          ? Buffer.from(text, "hex")
+          : Buffer.from(text, "base64");
+
+      if (key.length !== KEY_LENGTH) {
+        throw new Error(`Encryption key file ${this.config.keyFile} must contain a 32-byte key (raw, hex or base64)`);
+      }
+      this.fileKey = key;
+    }
+
+    return this.fileKey;
+  }
+
+  private getPassphraseKey(salt: string): Buffer {
+    const variable = this.config.passphraseEnv;
+    if (!variable) {
+      throw new Error("Payload was encrypted with a passphrase, but no encryption.passphraseEnv is configured");
+    }
+
+    const passphrase = process.env[variable];
+    if (!passphrase) {
+      throw new Error(`Encryption passphrase environment variable ${variable} is not set`);
+    }
+
+    let key = this.derivedKeys.get(salt);
+    if (!key) {
+      key = crypto.scryptSync(passphrase, Buffer.from(salt, "base64"), KEY_LENGTH);
+      this.derivedKeys.set(salt, key);
+    }
+    return key;
+  }
+}
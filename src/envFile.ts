@@ -0,0 +1,123 @@
+import crypto from "crypto";
+import dotenv from "dotenv";
+
+export interface EnvDiff {
+  /** Keys present locally but not remotely */
+  added: string[];
+  /** Keys present remotely but not locally */
+  removed: string[];
+  /** Keys present on both sides with different values */
+  changed: string[];
+  /** Keys present on both sides with identical values */
+  unchanged: string[];
+}
+
+/**
+ * Parses env file content into an ordered key/value map
+ */
+export function parseEnv(content: string): Record<string, string> {
+  return dotenv.parse(content);
+}
+
+/**
+ * Formats key/value pairs as env file content, quoting values that dotenv would otherwise alter
+ */
+export function serializeEnv(entries: [string, string][]): string {
+  return entries.map(([key, value]) => `${key}=${formatValue(value)}`).join("\n") + (entries.length ? "\n" : "");
+}
+
+function formatValue(value: string): string {
+  if (/^[^\s'"`#\\]*$/.test(value)) {
+    return value;
+  }
+  if (/[\r\n]/.test(value)) {
+    return `"${value.replace(/\r/g, "\\r").replace(/\n/g, "\\n")}"`;
+  }
+  if (!value.includes("'")) {
+    return `'${value}'`;
+  }
+  if (!value.includes('"')) {
+    return `"${value}"`;
+  }
+  return `\`${value}\``;
+}
+
+/**
+ * Compares two env files key by key. `local` is treated as the new state and `remote` as the old one.
+ */
+export function diffEnv(local: string, remote: string): EnvDiff {
+  const localVars = parseEnv(local);
+  const remoteVars = parseEnv(remote);
+  const diff: EnvDiff = { added: [], removed: [], changed: [], unchanged: [] };
+
+  Object.keys(localVars).forEach(key => {
+    if (!(key in remoteVars)) {
+      diff.added.push(key);
+    } else if (localVars[key] !== remoteVars[key]) {
+      diff.changed.push(key);
+    } else {
+      diff.unchanged.push(key);
+    }
+  });
+
+  Object.keys(remoteVars).forEach(key => {
+    if (!(key in localVars)) {
+      diff.removed.push(key);
+    }
+  });
+
+  return diff;
+}
+
+/**
+ * SHA-256 checksum of env file content, used to detect byte-identical uploads
+ */
+export function checksum(content: string): string {
+  return crypto.createHash("sha256").update(content, "utf8").digest("hex");
+}
+
+export function hasChanges(diff: EnvDiff): boolean {
+  return diff.added.length + diff.removed.length + diff.changed.length > 0;
+}
+
+/**
+ * Hides a secret value for display
+ */
+export function maskValue(value: string): string {
+  return value.length === 0 ? "" : "****";
+}
+
+/**
+ * Formats a diff as display lines, masking values unless showValues is set
+ */
+export function formatEnvDiff(
+  diff: EnvDiff,
+  local: string,
+  remote: string,
+  showValues: boolean = false
+): string[] {
+  const localVars = parseEnv(local);
+  const remoteVars = parseEnv(remote);
+  const display = (value: string) => (showValues ? value : maskValue(value));
+
+  return [
+    ...diff.added.map(key => `  + ${key}=${display(localVars[key])}`),
+    ...diff.removed.map(key => `  - ${key}=${display(remoteVars[key])}`),
+    ...diff.changed.map(key => `  ~ ${key}: ${display(remoteVars[key])} -> ${display(localVars[key])}`),
+  ];
+}
+
+/**
+ * Puts a service's own env file on top of the shared layer: shared keys the service neither
+ * defines nor excludes come first, followed by the service's content as is
+ */
+export function layerEnv(shared: string, own: string, excludedKeys: string[] = []): string {
+  const ownVars = parseEnv(own);
+  const inherited = Object.entries(parseEnv(shared))
+    .filter(([key]) => !(key in ownVars) && !excludedKeys.includes(key));
+
+  if (inherited.length === 0) {
+    return own;
+  }
+  return serializeEnv(inherited) + own;
+}
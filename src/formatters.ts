@@ -0,0 +1,64 @@
+import { parseEnv, serializeEnv } from "./envFile";
+import { TargetConfig, TargetFormat } from "./types";
+
+export const TARGET_FORMATS: TargetFormat[] = ["dotenv", "json", "yaml", "shell", "docker", "runtimeconfig"];
+
+const DEFAULT_RUNTIMECONFIG_NAMESPACE = "env";
+
+const FORMATTERS: Record<TargetFormat, (vars: Record<string, string>, target: TargetConfig) => string> = {
+  dotenv: vars => serializeEnv(Object.entries(vars)),
+  json: vars => JSON.stringify(vars, null, 2) + "\n",
+  // Double-quoted JSON strings are valid YAML scalars, which keeps every value a string
+  yaml: vars => {
+    const lines = Object.entries(vars).map(([key, value]) => `${key}: ${JSON.stringify(value)}`);
+    return lines.length ? lines.join("\n") + "\n" : "{}\n";
+  },
+  shell: vars => Object.entries(vars)
+    .map(([key, value]) => `export ${key}='${value.replace(/'/g, "'\\''")}'\n`)
+    .join(""),
+  docker: (vars, target) => Object.entries(vars)
+    .map(([key, value]) => {
+      if (/[\r\n]/.test(value)) {
+        throw new Error(`${key} has a multi-line value, which Docker env files cannot hold (target ${target.path})`);
+      }
+      return `${key}=${value}\n`;
+    })
+    .join(""),
+  runtimeconfig: (vars, target) => {
+    const config: Record<string, string> = {};
+    Object.entries(vars).forEach(([key, value]) => {
+      config[key.toLowerCase()] = value;
+    });
+    return JSON.stringify({ [target.namespace || DEFAULT_RUNTIMECONFIG_NAMESPACE]: config }, null, 2) + "\n";
+  },
+};
+
+/**
+ * Matches a key against include/exclude patterns, where `*` stands for any characters
+ */
+function matchesAny(key: string, patterns: string[]): boolean {
+  return patterns.some(pattern =>
+    new RegExp(`^${pattern.split("*").map(part => part.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")).join(".*")}$`).test(key)
+  );
+}
+
+/**
+ * Formats env file content for a set target, keeping only the keys its filters allow.
+ * Unfiltered dotenv targets get the content as is, comments included.
+ */
+export function formatEnv(content: string, target: TargetConfig): string {
+  const format = target.format || "dotenv";
+  if (format === "dotenv" && !target.include && !target.exclude) {
+    return content;
+  }
+
+  const vars: Record<string, string> = {};
+  Object.entries(parseEnv(content))
+    .filter(([key]) => !target.include || matchesAny(key, target.include))
+    .filter(([key]) => !target.exclude || !matchesAny(key, target.exclude))
+    .forEach(([key, value]) => {
+      vars[key] = value;
+    });
+
+  return FORMATTERS[format](vars, target);
+}
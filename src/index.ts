@@ -1,12 +1,40 @@
-export { GcpMonorepoSecretManager } from './GcpMonorepoSecretManager';
-export { ConfigManager } from './ConfigManager';
+export { GcpMonorepoSecretManager, ServiceOperationError } from './GcpMonorepoSecretManager';
+export { ConfigManager, SHARED_LAYER_NAME } from './ConfigManager';
 export { loadConfig } from './loadConfig';
 export { initSecretManagerClient } from './initSecretManagerClient';
+export { createSecretBackend } from './createSecretBackend';
+export { GcpSecretBackend } from './GcpSecretBackend';
+export { FileSystemSecretBackend } from './FileSystemSecretBackend';
+export { SecretBackend } from './SecretBackend';
+export { EnvelopeEncryption, generateEncryptionKey } from './encryption';
+export { consoleLogger, silentLogger, createJsonLogger } from './logger';
 export { 
   Environment, 
+  EnvironmentConfig,
+  BackendConfig,
+  EncryptionConfig,
+  SecretSettings,
   ServiceConfig, 
+  SharedLayerConfig,
+  TargetConfig,
+  TargetFormat,
+  EnvSchema,
+  EnvVariableSchema,
   SecretsConfig, 
   GcpMonorepoSecretManagerOptions,
+  Logger,
+  ServiceAction,
+  ServiceResult,
+  SecretReadOptions,
+  DownloadOptions,
+  MergeStrategy,
+  EnvConflict,
+  UploadOptions,
+  PromoteOptions,
+  PromotionRules,
+  PromotionRewrite,
+  SecretVersionHistoryEntry,
+  VersionProvenance,
   BaseConfig,
   ConfigOptions
 } from './types'; 
\ No newline at end of file
@@ -4,8 +4,17 @@ import { SecretManagerServiceClient } from "@google-cloud/secret-manager";
  * Initialize and return a Secret Manager client
  * This function creates a new SecretManagerServiceClient instance
  *
+ * @param projectId Optional Google Cloud project ID for the client
+ * @param keyFilename Optional service account key file; Application Default Credentials are used when omitted
  * @returns SecretManagerServiceClient instance
  */
-export function initSecretManagerClient(): SecretManagerServiceClient {
-  return new SecretManagerServiceClient();
-} 
\ No newline at end of file
+export function initSecretManagerClient(projectId?: string, keyFilename?: string): SecretManagerServiceClient {
+  if (!projectId && !keyFilename) {
+    return new SecretManagerServiceClient();
+  }
+
+  return new SecretManagerServiceClient({
+    ...(projectId && { projectId }),
+    ...(keyFilename && { keyFilename }),
+  });
+}
@@ -1,9 +1,76 @@
-import { initSecretManagerClient } from "./initSecretManagerClient";
+import { createSecretBackend } from "./createSecretBackend";
+import { EnvelopeEncryption, isEncryptedPayload } from "./encryption";
+import { verifyCrc32c } from "./crc32c";
+import { SecretLock } from "./SecretLock";
+import { SecretBackend } from "./SecretBackend";
+import { SHARED_LAYER_NAME } from "./ConfigManager";
+import { layerEnv, parseEnv } from "./envFile";
+import { resolveReferences } from "./references";
+import { assertValidEnv } from "./schema";
 import dotenv from "dotenv";
 import * as fs from "fs";
 import * as path from "path";
 import { BaseConfig, ConfigOptions } from "./types";
 
+/**
+ * Picks the secret version to read: an explicit version, the one pinned in the lock file
+ * when frozen, or latest
+ */
+function resolveVersion(options: ConfigOptions): string {
+  if (options.version) {
+    return options.version;
+  }
+
+  if (!options.frozen) {
+    return "latest";
+  }
+
+  if (!options.environment) {
+    throw new Error("An environment is required to read a pinned version with frozen");
+  }
+
+  const lockPath = options.lockPath || path.resolve(process.cwd(), ".secrets-lock");
+  return new SecretLock(lockPath).require(options.environment, options.serviceName);
+}
+
+/**
+ * Reads and verifies a secret version, decrypting it if it was uploaded encrypted
+ */
+async function readSecret(
+  secretBackend: SecretBackend,
+  projectId: string,
+  secretName: string,
+  version: string,
+  options: ConfigOptions
+): Promise<string> {
+  const secretPath = `projects/${projectId}/secrets/${secretName}/versions/${version}`;
+
+  console.info(`Fetching secret: ${secretPath}`);
+
+  // Access the secret
+  const [secretVersion] = await secretBackend.accessSecretVersion({
+    name: secretPath,
+  });
+
+  if (!secretVersion.payload || !secretVersion.payload.data) {
+    throw new Error(`No data found for secret ${secretName}`);
+  }
+
+  // Make sure the payload arrived intact before anything is written to disk
+  const data = Buffer.from(secretVersion.payload.data as Buffer);
+  verifyCrc32c(data, secretVersion.payload.dataCrc32c, secretName);
+
+  // Get the secret data, decrypting it if it was uploaded encrypted
+  const content = data.toString();
+  if (!isEncryptedPayload(content)) {
+    return content;
+  }
+  if (!options.encryption) {
+    throw new Error(`Secret ${secretName} is encrypted but no encryption key was provided`);
+  }
+  return new EnvelopeEncryption(options.encryption).decrypt(content);
+}
+
 /**
  * Initializes configuration by fetching environment variables from Secret Manager
  * This function pulls the service environment variables from Secret Manager and writes them to a .env file
@@ -24,6 +91,9 @@ async function initializeConfig<T extends BaseConfig>(
     console.log(`Checking if .env file exists...${resolvedEnvPath}`);
     if (fs.existsSync(resolvedEnvPath)) {
       console.info(`Using existing .env file for ${serviceName}`);
+      if (options.schema) {
+        assertValidEnv(fs.readFileSync(resolvedEnvPath, "utf8"), options.schema, serviceName, options.environment);
+      }
       // Load environment variables from existing .env file
       dotenv.config({ path: resolvedEnvPath });
       return resolvedEnvPath;
@@ -33,29 +103,44 @@ async function initializeConfig<T extends BaseConfig>(
       `Initializing config for ${serviceName} from Secret Manager...`
     );
 
-    // Initialize Secret Manager client
-    const secretManagerClient = initSecretManagerClient();
+    // Initialize the secret backend (Secret Manager unless configured otherwise)
+    const secretBackend = createSecretBackend(options.backend);
 
     // Determine environment and project ID
     const projectId = options.projectId;
     const resolvedSecretName =
       secretName || `${serviceName.toUpperCase()}_ENV_FILE`;
-    const secretPath = `projects/${projectId}/secrets/${resolvedSecretName}/versions/latest`;
+    let envContent = await readSecret(secretBackend, projectId, resolvedSecretName, resolveVersion(options), options);
 
-    console.info(`Fetching secret: ${secretPath}`);
+    // Put the service's own values on top of the shared layer
+    if (options.sharedSecretName) {
+      const sharedVersion = resolveVersion({ ...options, serviceName: SHARED_LAYER_NAME, version: undefined });
+      const sharedContent = await readSecret(secretBackend, projectId, options.sharedSecretName, sharedVersion, options);
+      envContent = layerEnv(sharedContent, envContent, options.excludeShared);
+    }
 
-    // Access the secret
-    const [version] = await secretManagerClient.accessSecretVersion({
-      name: secretPath,
+    envContent = await resolveReferences(serviceName, envContent, async service => {
+      const referencedSecretName = service === SHARED_LAYER_NAME && options.sharedSecretName
+        ? options.sharedSecretName
+        : options.referenceSecretNames?.[service] || `${service.toUpperCase()}_ENV_FILE`;
+      const referencedVersion = resolveVersion({ ...options, serviceName: service, version: undefined });
+
+      try {
+        return parseEnv(await readSecret(secretBackend, projectId, referencedSecretName, referencedVersion, options));
+      } catch (error) {
+        // A service without a secret leaves its references dangling
+        if ((error as Error).message.includes("NOT_FOUND")) {
+          return undefined;
+        }
+        throw error;
+      }
     });
 
-    if (!version.payload || !version.payload.data) {
-      throw new Error(`No data found for secret ${resolvedSecretName}`);
+    // Refuse to write values the service's schema does not allow
+    if (options.schema) {
+      assertValidEnv(envContent, options.schema, serviceName, options.environment);
     }
 
-    // Get the secret data
-    const envContent = Buffer.from(version.payload.data as Buffer).toString();
-
     // Write to .env file
     fs.writeFileSync(resolvedEnvPath, envContent);
     console.info(
@@ -0,0 +1,33 @@
+import { Logger } from "./types";
+
+/**
+ * Prints messages to the console, as the CLI does
+ */
+export const consoleLogger: Logger = {
+  info: message => console.log(message),
+  warn: message => console.warn(message),
+  error: message => console.error(message),
+};
+
+/**
+ * Drops every message, for callers that only use the returned results
+ */
+export const silentLogger: Logger = {
+  info: () => undefined,
+  warn: () => undefined,
+  error: () => undefined,
+};
+
+/**
+ * Writes each message as one JSON line, e.g. {"level":"info","message":"...","time":"..."}
+ */
+export function createJsonLogger(write: (line: string) => void = line => process.stdout.write(line + "\n")): Logger {
+  const log = (level: string) => (message: string) =>
+    write(JSON.stringify({ level, message, time: new Date().toISOString() }));
+
+  return {
+    info: log("info"),
+    warn: log("warn"),
+    error: log("error"),
+  };
+}
@@ -0,0 +1,80 @@
+import { parseEnv, serializeEnv } from "./envFile";
+import { EnvConflict } from "./types";
+
+export interface EnvMerge {
+  /** Every key of the three sides: the remote's order, then local-only keys, then base-only keys */
+  keys: string[];
+  /** Merged value of each key without a conflict; undefined when the key was deleted */
+  values: Record<string, string | undefined>;
+  conflicts: EnvConflict[];
+  /** Keys whose local change was kept */
+  localChanges: string[];
+}
+
+const CONFLICT_MARKER = /^(<{7}|={7}|>{7})( |$)/m;
+
+/**
+ * Key-level three-way merge of env files. A key changed on one side only takes that side's
+ * value; a key changed differently on both sides is a conflict. Without a base, every key
+ * whose local and remote values differ is a conflict, and keys present on one side only are kept.
+ */
+export function mergeEnv(base: string | undefined, local: string, remote: string): EnvMerge {
+  const baseVars = parseEnv(base || "");
+  const localVars = parseEnv(local);
+  const remoteVars = parseEnv(remote);
+  const valueOf = (vars: Record<string, string>, key: string) => (key in vars ? vars[key] : undefined);
+
+  const keys = [...new Set([...Object.keys(remoteVars), ...Object.keys(localVars), ...Object.keys(baseVars)])];
+  const merge: EnvMerge = { keys, values: {}, conflicts: [], localChanges: [] };
+
+  keys.forEach(key => {
+    const baseValue = base === undefined ? undefined : valueOf(baseVars, key);
+    const localValue = valueOf(localVars, key);
+    const remoteValue = valueOf(remoteVars, key);
+
+    if (localValue === remoteValue || localValue === baseValue) {
+      merge.values[key] = remoteValue;
+    } else if (remoteValue === baseValue) {
+      merge.values[key] = localValue;
+      merge.localChanges.push(key);
+    } else {
+      merge.conflicts.push({ key, base: baseValue, local: localValue, remote: remoteValue });
+    }
+  });
+
+  return merge;
+}
+
+/**
+ * Formats a merge as env file content. Conflicts take the side chosen in resolutions; the rest
+ * are written between conflict markers, local first.
+ */
+export function renderMerge(
+  merge: EnvMerge,
+  resolutions: Record<string, "ours" | "theirs">,
+  remoteLabel: string
+): string {
+  const conflicts = new Map(merge.conflicts.map(conflict => [conflict.key, conflict]));
+  const line = (key: string, value?: string) => (value === undefined ? "" : serializeEnv([[key, value]]));
+
+  return merge.keys.map(key => {
+    const conflict = conflicts.get(key);
+    if (!conflict) {
+      return line(key, merge.values[key]);
+    }
+
+    const resolution = resolutions[key];
+    if (resolution) {
+      return line(key, resolution === "ours" ? conflict.local : conflict.remote);
+    }
+
+    return `<<<<<<< local\n${line(key, conflict.local)}=======\n${line(key, conflict.remote)}>>>>>>> ${remoteLabel}\n`;
+  }).join("");
+}
+
+/**
+ * Whether env file content still holds conflict markers from a merge
+ */
+export function hasConflictMarkers(content: string): boolean {
+  return CONFLICT_MARKER.test(content);
+}
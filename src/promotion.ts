@@ -0,0 +1,75 @@
+import { parseEnv, serializeEnv } from "./envFile";
+import { Environment, PromotionRules } from "./types";
+
+export interface PromotedEnv {
+  /** Env file content for the target environment */
+  content: string;
+  /** Excluded keys that were not copied from the source */
+  excluded: string[];
+  /** Per-environment keys that kept the target's value */
+  kept: string[];
+  /** Keys whose value was changed by a rewrite */
+  rewritten: string[];
+}
+
+/**
+ * Builds the target environment's env file from the source's. Keys follow the source's order;
+ * excluded and per-environment keys keep the target's value, and every other value has the
+ * matching rewrites applied. Target keys not in the source are dropped unless they are excluded
+ * or per-environment.
+ */
+export function applyPromotionRules(
+  sourceContent: string,
+  targetContent: string,
+  rules: PromotionRules,
+  from: Environment,
+  to: Environment
+): PromotedEnv {
+  const source = parseEnv(sourceContent);
+  const target = parseEnv(targetContent);
+  const excludedKeys = new Set(rules.exclude || []);
+  const perEnvironmentKeys = new Set(rules.perEnvironment || []);
+  const rewrites = (rules.rewrites || []).filter(rewrite =>
+    (!rewrite.from || rewrite.from === from) && (!rewrite.to || rewrite.to === to)
+  );
+
+  const missing = [...perEnvironmentKeys].filter(key => key in source && !(key in target));
+  if (missing.length > 0) {
+    throw new Error(
+      `Per-environment keys have no value in ${to}: ${missing.join(", ")}. Set them in ${to} before promoting from ${from}.`
+    );
+  }
+
+  const entries: [string, string][] = [];
+  const result: PromotedEnv = { content: "", excluded: [], kept: [], rewritten: [] };
+
+  Object.entries(source).forEach(([key, value]) => {
+    if (excludedKeys.has(key)) {
+      result.excluded.push(key);
+      if (key in target) {
+        entries.push([key, target[key]]);
+      }
+      return;
+    }
+
+    if (perEnvironmentKeys.has(key)) {
+      result.kept.push(key);
+      entries.push([key, target[key]]);
+      return;
+    }
+
+    const rewritten = rewrites.reduce((current, rewrite) => current.split(rewrite.find).join(rewrite.replace), value);
+    if (rewritten !== value) {
+      result.rewritten.push(key);
+    }
+    entries.push([key, rewritten]);
+  });
+
+  // Target-only keys the rules protect are kept at the end
+  Object.entries(target)
+    .filter(([key]) => !(key in source) && (excludedKeys.has(key) || perEnvironmentKeys.has(key)))
+    .forEach(entry => entries.push(entry));
+
+  result.content = serializeEnv(entries);
+  return result;
+}
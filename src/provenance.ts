@@ -0,0 +1,123 @@
+import { execFileSync } from "child_process";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { VersionProvenance } from "./types";
+
+// Secret Manager versions have no annotations of their own, so provenance is kept on the secret
+// in a `msm-provenance-{version}` annotation
+export const PROVENANCE_ANNOTATION_PREFIX = "msm-provenance-";
+
+// Secret Manager limits the total size of a secret's annotation keys and values to 16 KiB
+const MAX_ANNOTATIONS_BYTES = 16 * 1024;
+
+export const provenanceAnnotation = (version: string): string => `${PROVENANCE_ANNOTATION_PREFIX}${version}`;
+
+const git = (...args: string[]): string | undefined => {
+  try {
+    return execFileSync("git", args, { stdio: ["ignore", "pipe", "ignore"], encoding: "utf8" }).trim() || undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+const readToolVersion = (): string | undefined => {
+  try {
+    return JSON.parse(fs.readFileSync(path.join(__dirname, "..", "package.json"), "utf8")).version;
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Returns the identity in a credentials file (a service account's client_email), falling back
+ * to the local user name when there is no file or it holds user credentials
+ */
+export function resolveIdentity(credentialsPath?: string): string | undefined {
+  if (credentialsPath) {
+    try {
+      const credentials = JSON.parse(fs.readFileSync(credentialsPath, "utf8"));
+      if (credentials.client_email) {
+        return credentials.client_email;
+      }
+    } catch {
+      // Fall back to the local user
+    }
+  }
+
+  try {
+    return os.userInfo().username;
+  } catch {
+    return process.env.USER || process.env.USERNAME;
+  }
+}
+
+/**
+ * Collects where an upload comes from: identity, git commit and branch, host and tool version
+ */
+export function collectProvenance(identity?: string): VersionProvenance {
+  return {
+    uploadedBy: identity,
+    commit: git("rev-parse", "HEAD"),
+    branch: git("rev-parse", "--abbrev-ref", "HEAD"),
+    hostname: os.hostname(),
+    toolVersion: readToolVersion(),
+  };
+}
+
+export function parseProvenance(value?: string): VersionProvenance | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  try {
+    return JSON.parse(value);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * One-line summary, e.g. "by deploy@proj.iam.gserviceaccount.com on ci-runner from main@1a2b3c4 (msm 1.4.0): rotate keys"
+ */
+export function formatProvenance(provenance: VersionProvenance): string {
+  const parts = [`by ${provenance.uploadedBy || "unknown"}`];
+
+  if (provenance.hostname) {
+    parts.push(`on ${provenance.hostname}`);
+  }
+  if (provenance.commit) {
+    parts.push(`from ${provenance.branch ? `${provenance.branch}@` : ""}${provenance.commit.slice(0, 7)}`);
+  }
+  if (provenance.toolVersion) {
+    parts.push(`(msm ${provenance.toolVersion})`);
+  }
+
+  return parts.join(" ") + (provenance.message ? `: ${provenance.message}` : "");
+}
+
+/**
+ * Adds a version's provenance to a secret's annotations, dropping the provenance of the oldest
+ * versions when the annotations would no longer fit
+ */
+export function addProvenanceAnnotation(
+  annotations: Record<string, string>,
+  version: string,
+  provenance: VersionProvenance
+): Record<string, string> {
+  const updated = { ...annotations, [provenanceAnnotation(version)]: JSON.stringify(provenance) };
+  const size = () => Object.entries(updated).reduce(
+    (total, [key, value]) => total + Buffer.byteLength(key) + Buffer.byteLength(value),
+    0
+  );
+
+  const oldestFirst = Object.keys(updated)
+    .filter(key => key.startsWith(PROVENANCE_ANNOTATION_PREFIX))
+    .sort((a, b) => Number(a.slice(PROVENANCE_ANNOTATION_PREFIX.length)) - Number(b.slice(PROVENANCE_ANNOTATION_PREFIX.length)));
+
+  while (size() > MAX_ANNOTATIONS_BYTES && oldestFirst.length > 1) {
+    delete updated[oldestFirst.shift()!];
+  }
+
+  return updated;
+}
@@ -0,0 +1,75 @@
+import { parseEnv, serializeEnv } from "./envFile";
+
+// ${ref:service.KEY}, where service is a service name or "shared"
+const REFERENCE_SOURCE = "\\$\\{ref:([\\w-]+)\\.([\\w.-]+)\\}";
+
+/**
+ * Whether env file content references other services' values
+ */
+export function hasReferences(content: string): boolean {
+  return new RegExp(REFERENCE_SOURCE).test(content);
+}
+
+/**
+ * Replaces every `${ref:service.KEY}` in a service's values with that service's value for KEY,
+ * following references in the referenced values too. loadEnv returns a service's variables,
+ * or undefined when there is no such service or it has no values in this environment. Throws on a reference cycle, and on references
+ * to services or keys that do not exist, listing all of them.
+ * Content without references is returned as is; otherwise it is re-serialized without comments.
+ */
+export async function resolveReferences(
+  serviceName: string,
+  content: string,
+  loadEnv: (service: string) => Promise<Record<string, string> | undefined>
+): Promise<string> {
+  if (!hasReferences(content)) {
+    return content;
+  }
+
+  const vars = parseEnv(content);
+  const loaded = new Map<string, Promise<Record<string, string> | undefined>>([[serviceName, Promise.resolve(vars)]]);
+  const load = (service: string) => {
+    if (!loaded.has(service)) {
+      loaded.set(service, loadEnv(service));
+    }
+    return loaded.get(service)!;
+  };
+  const dangling: string[] = [];
+
+  // chain holds the service.KEY references being resolved, outermost first
+  const resolveValue = async (value: string, chain: string[]): Promise<string> => {
+    let resolved = "";
+    let last = 0;
+
+    for (const match of value.matchAll(new RegExp(REFERENCE_SOURCE, "g"))) {
+      const [reference, service, key] = match;
+      resolved += value.slice(last, match.index);
+      last = match.index! + reference.length;
+
+      const id = `${service}.${key}`;
+      if (chain.includes(id)) {
+        throw new Error(`Reference cycle: ${[...chain.slice(chain.indexOf(id)), id].join(" -> ")}`);
+      }
+
+      const env = await load(service);
+      if (!env || !(key in env)) {
+        dangling.push(`${reference} in ${chain[chain.length - 1]} (${env ? `${service} has no ${key}` : `no values for ${service}`})`);
+        resolved += reference;
+        continue;
+      }
+      resolved += await resolveValue(env[key], [...chain, id]);
+    }
+
+    return resolved + value.slice(last);
+  };
+
+  const entries: [string, string][] = [];
+  for (const [key, value] of Object.entries(vars)) {
+    entries.push([key, await resolveValue(value, [`${serviceName}.${key}`])]);
+  }
+
+  if (dangling.length > 0) {
+    throw new Error(`Dangling references in ${serviceName}: ${dangling.join(", ")}`);
+  }
+  return serializeEnv(entries);
+}
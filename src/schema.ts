@@ -0,0 +1,81 @@
+import { parseEnv } from "./envFile";
+import { EnvSchema, EnvVariableSchema, Environment } from "./types";
+
+export const SCHEMA_TYPES: NonNullable<EnvVariableSchema["type"]>[] = ["string", "url", "int", "bool", "enum", "regex"];
+
+const isUrl = (value: string): boolean => {
+  try {
+    new URL(value);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Why a value does not match its variable's type, or undefined when it does. Messages never
+ * include the value, which may be secret.
+ */
+function checkType(value: string, rule: EnvVariableSchema): string | undefined {
+  switch (rule.type || "string") {
+    case "url":
+      return isUrl(value) ? undefined : "must be an absolute URL";
+    case "int":
+      return /^-?\d+$/.test(value) ? undefined : "must be an integer";
+    case "bool":
+      return value === "true" || value === "false" ? undefined : "must be true or false";
+    case "enum":
+      return (rule.values || []).includes(value) ? undefined : `must be one of ${(rule.values || []).join(", ")}`;
+    case "regex":
+      return new RegExp(`^(?:${rule.pattern})$`).test(value) ? undefined : `must match ${rule.pattern}`;
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Checks env file content against a schema and returns one message per problem, e.g.
+ * "PORT must be an integer". Without an environment, per-environment rules are skipped.
+ */
+export function validateEnv(content: string, schema: EnvSchema, environment?: Environment): string[] {
+  const vars = parseEnv(content);
+  const problems: string[] = [];
+
+  Object.entries(schema).forEach(([key, rule]) => {
+    const value = vars[key];
+    if (value === undefined || value === "") {
+      const required = Array.isArray(rule.required)
+        ? !!environment && rule.required.includes(environment)
+        : !!rule.required;
+      if (required) {
+        problems.push(`${key} is required${Array.isArray(rule.required) ? ` in ${environment}` : ""}`);
+      }
+      return;
+    }
+
+    const typeProblem = checkType(value, rule);
+    if (typeProblem) {
+      problems.push(`${key} ${typeProblem}`);
+      return;
+    }
+
+    const allowed = environment ? rule.allowedValues?.[environment] : undefined;
+    if (allowed && !allowed.includes(value)) {
+      problems.push(`${key} must be one of ${allowed.join(", ")} in ${environment}`);
+    }
+  });
+
+  return problems;
+}
+
+/**
+ * Throws when env file content does not match a schema, listing every problem
+ */
+export function assertValidEnv(content: string, schema: EnvSchema, name: string, environment?: Environment): void {
+  const problems = validateEnv(content, schema, environment);
+  if (problems.length > 0) {
+    throw new Error(
+      `${name} does not match its schema${environment ? ` in ${environment}` : ""}: ${problems.join("; ")}`
+    );
+  }
+}
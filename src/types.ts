@@ -1,10 +1,192 @@
-export type Environment = "staging" | "production";
+/**
+ * Name of an environment defined in `.secrets-config`. The legacy two-key layout
+ * provides "staging" and "production"; the `environments` map can define any others.
+ */
+export type Environment = string;
 
 export interface ServiceConfig {
   name: string;
   envPath: string;
-  targetPath: string;
+  /**
+   * Where set writes the env file as dotenv. Required unless targets are given.
+   */
+  targetPath?: string;
+  secretPrefix: string;
+
+  /**
+   * Files set writes, each in its own format and optionally with a subset of the keys.
+   * Written after targetPath when both are given.
+   */
+  targets?: TargetConfig[];
+  /**
+   * How the env file is stored: one `${secretPrefix}_ENV_FILE` secret, or one
+   * `${secretPrefix}_${KEY}` secret per variable plus a `${secretPrefix}_ENV_KEYS` key list.
+   * @default "file"
+   */
+  storageMode?: "file" | "per-key";
+
+  /**
+   * Delete policy for this service's secrets. Fields set here override the environment
+   * and global policies.
+   */
+  deletePolicy?: DeletePolicy;
+
+  /**
+   * Settings for this service's secrets. Fields set here override the environment and
+   * global settings; labels are merged.
+   */
+  secretSettings?: SecretSettings;
+
+  /**
+   * Rules applied when promoting this service between environments, added to the global rules
+   */
+  promotion?: PromotionRules;
+
+  /**
+   * Keys of the shared layer this service does not inherit
+   */
+  excludeShared?: string[];
+
+  /**
+   * Rules the service's env must satisfy before it is uploaded, or the path of a JSON file
+   * holding them, relative to .secrets-config
+   */
+  schema?: EnvSchema | string;
+}
+
+/**
+ * Rules for an env file's variables, keyed by variable name. Variables not listed are not checked.
+ */
+export type EnvSchema = Record<string, EnvVariableSchema>;
+
+export interface EnvVariableSchema {
+  /**
+   * - string: any value
+   * - url: an absolute URL
+   * - int: an integer
+   * - bool: "true" or "false"
+   * - enum: one of values
+   * - regex: matches pattern in full
+   * @default "string"
+   */
+  type?: "string" | "url" | "int" | "bool" | "enum" | "regex";
+
+  /**
+   * Whether the variable must be set to a non-empty value, in every environment or only in the listed ones
+   * @default false
+   */
+  required?: boolean | Environment[];
+
+  /** Allowed values of an enum */
+  values?: string[];
+
+  /** Regular expression a regex value must match in full */
+  pattern?: string;
+
+  /**
+   * Values allowed in specific environments, e.g. { "production": ["warn", "error"] }
+   */
+  allowedValues?: Record<Environment, string[]>;
+}
+
+/**
+ * Output format of a set target:
+ * - dotenv: the env file as is, or re-serialized when keys are filtered
+ * - json: a flat JSON object
+ * - yaml: a flat YAML mapping
+ * - shell: `export KEY='value'` lines, for `source`
+ * - docker: `KEY=value` lines for `docker run --env-file` and compose's `env_file` (no quoting, no multi-line values)
+ * - runtimeconfig: Firebase Functions `.runtimeconfig.json`, with lowercased keys under one namespace
+ */
+export type TargetFormat = "dotenv" | "json" | "yaml" | "shell" | "docker" | "runtimeconfig";
+
+export interface TargetConfig {
+  path: string;
+  /**
+   * @default "dotenv"
+   */
+  format?: TargetFormat;
+  /**
+   * Keys written to this target; `*` matches any characters, e.g. "NEXT_PUBLIC_*". Defaults to every key.
+   */
+  include?: string[];
+  /**
+   * Keys left out of this target, with the same wildcards as include
+   */
+  exclude?: string[];
+  /**
+   * Namespace of the runtimeconfig format, read as functions.config().{namespace}
+   * @default "env"
+   */
+  namespace?: string;
+}
+
+/**
+ * Env file layer merged under every service's own values, stored as its own secret
+ * (`${secretPrefix}_ENV_FILE`). Operations address it as the service "shared".
+ */
+export interface SharedLayerConfig {
+  envPath: string;
   secretPrefix: string;
+  schema?: EnvSchema | string;
+  deletePolicy?: DeletePolicy;
+  secretSettings?: SecretSettings;
+  promotion?: PromotionRules;
+}
+
+/**
+ * How an env file is transformed when it is promoted from one environment to another
+ */
+export interface PromotionRules {
+  /**
+   * Keys never copied from the source. The target keeps its own value, if it has one.
+   */
+  exclude?: string[];
+
+  /**
+   * Keys whose values must differ per environment. The target keeps its own value, and
+   * promotion fails when the target does not have one yet.
+   */
+  perEnvironment?: string[];
+
+  /**
+   * Substitutions applied to every promoted value, e.g. staging hostnames to production ones
+   */
+  rewrites?: PromotionRewrite[];
+}
+
+export interface PromotionRewrite {
+  /** Text to find in values (every occurrence is replaced) */
+  find: string;
+  replace: string;
+  /** Only apply when promoting from this environment */
+  from?: Environment;
+  /** Only apply when promoting to this environment */
+  to?: Environment;
+}
+
+/**
+ * How secrets are created in Secret Manager. Replication and the KMS key can only be set when a
+ * secret is created; labels can be applied to existing secrets with reconcile.
+ */
+export interface SecretSettings {
+  /**
+   * Regions to replicate secrets to (user-managed replication), e.g. ["europe-west1", "europe-west4"]
+   * @default automatic replication
+   */
+  replicationLocations?: string[];
+
+  /**
+   * Cloud KMS key used to encrypt secrets (CMEK). With replicationLocations, `{location}` is
+   * replaced by each replica's location, since every replica needs a key in its own region.
+   */
+  kmsKeyName?: string;
+
+  /**
+   * Labels added to secrets. `{service}` and `{env}` in values are replaced by the service and
+   * environment names.
+   */
+  labels?: Record<string, string>;
 }
 
 export interface DeletePolicy {
@@ -27,28 +209,321 @@ export interface DeletePolicy {
    * @default true
    */
   enabled?: boolean;
+
+  /**
+   * What happens to versions past maxVersions or maxAgeDays: "destroy" destroys them right away,
+   * "disable" only disables them, and "disable-then-destroy" disables them and destroys them
+   * once they have been disabled for graceDays. Disabled versions can be re-enabled.
+   * @default "destroy"
+   */
+  mode?: "destroy" | "disable" | "disable-then-destroy";
+
+  /**
+   * Days a version stays disabled before "disable-then-destroy" destroys it
+   * @default 7
+   */
+  graceDays?: number;
+}
+
+export interface EnvironmentConfig {
+  /**
+   * Suffix substituted for `{env}` in a service's envPath (e.g. "stg" for .app.stg.env).
+   * @default the environment name
+   */
+  envSuffix?: string;
+
+  /** Google Cloud project ID holding this environment's secrets */
+  projectId: string;
+
+  /** Path to the service account JSON file used for this environment */
+  serviceAccountPath?: string;
+
+  /**
+   * Payload encryption for this environment, replacing the global setting
+   */
+  encryption?: EncryptionConfig;
+
+  /**
+   * Delete policy for this environment. Fields set here override the global policy.
+   */
+  deletePolicy?: DeletePolicy;
+
+  /**
+   * Settings for secrets created in this environment. Fields set here override the global
+   * settings; labels are merged.
+   */
+  secretSettings?: SecretSettings;
+}
+
+export interface EncryptionConfig {
+  /**
+   * Path to a local file holding a 32-byte key (raw, hex or base64)
+   */
+  keyFile?: string;
+
+  /**
+   * Name of an environment variable holding a passphrase the key is derived from.
+   * Used when keyFile is not set.
+   */
+  passphraseEnv?: string;
+}
+
+export interface BackendConfig {
+  /**
+   * Where secrets are stored: Google Cloud Secret Manager, or a local directory for offline work
+   * @default "gcp"
+   */
+  type: "gcp" | "filesystem";
+
+  /**
+   * Directory used by the filesystem backend
+   * @default ".secrets-store"
+   */
+  path?: string;
 }
 
 export interface SecretsConfig {
-  serviceAccountPaths: {
+  /**
+   * Legacy service account paths. Still supported, and mapped onto the
+   * "staging" (stg) and "production" (prod) environments.
+   */
+  serviceAccountPaths?: {
     staging: string;
     production: string;
   };
   services: ServiceConfig[];
-  projectIds: {
+  /**
+   * Legacy project IDs. Still supported, and mapped onto the
+   * "staging" (stg) and "production" (prod) environments.
+   */
+  projectIds?: {
     staging: string;
     production: string;
   };
   /**
-   * Global delete policy for secret versions. Can be overridden per service.
+   * Named environments keyed by environment name (e.g. dev, qa, preview).
+   */
+  environments?: Record<string, EnvironmentConfig>;
+  /**
+   * Secret storage backend. Defaults to Google Cloud Secret Manager.
+   */
+  backend?: BackendConfig;
+  /**
+   * Client-side encryption of uploaded payloads. Can be overridden per environment.
+   */
+  encryption?: EncryptionConfig;
+  /**
+   * Replication, CMEK and labels for created secrets. Can be overridden per environment and per service.
+   */
+  secretSettings?: SecretSettings;
+  /**
+   * Global delete policy for secret versions. Can be overridden per environment and per service.
    */
   deletePolicy?: DeletePolicy;
+  /**
+   * Rules applied when promoting env files between environments. Services can add their own.
+   */
+  promotion?: PromotionRules;
+  /**
+   * Keys shared by every service, merged under each service's own values by set and loadConfig
+   */
+  shared?: SharedLayerConfig;
 }
 
 export interface GcpMonorepoSecretManagerOptions {
   environment: Environment;
   overrideSa?: boolean;
   configPath?: string;
+  /**
+   * Report what upload, cleanup, set, download, rollback, enable-version, reconcile, lock and promote
+   * would do without changing Secret Manager or local files
+   * @default false
+   */
+  dryRun?: boolean;
+  /**
+   * Secret storage backend, overriding the one in the configuration file
+   */
+  backend?: BackendConfig;
+  /**
+   * Maximum number of services processed at once when operating on "all"
+   * @default 4
+   */
+  concurrency?: number;
+  /**
+   * Receives every progress message instead of the console
+   * @default consoleLogger
+   */
+  logger?: Logger;
+}
+
+/**
+ * Destination for the manager's progress messages
+ */
+export interface Logger {
+  info(message: string): void;
+  warn(message: string): void;
+  error(message: string): void;
+}
+
+/**
+ * What an operation did for a service. In dry-run mode, what it would have done.
+ */
+export type ServiceAction =
+  | "created"
+  | "updated"
+  | "unchanged"
+  | "downloaded"
+  | "set"
+  | "read"
+  | "cleaned"
+  | "rolled-back"
+  | "enabled"
+  | "reconciled"
+  | "locked"
+  | "promoted"
+  | "merged"
+  | "validated";
+
+/**
+ * Outcome of an operation for one service
+ */
+export interface ServiceResult {
+  service: string;
+  environment: Environment;
+  status: "succeeded" | "failed" | "skipped";
+  /** Unset when the operation failed or was skipped */
+  action?: ServiceAction;
+  /** Secret holding the env file (unset for per-key services) */
+  secretName?: string;
+  /** Secret version read or written */
+  version?: string;
+  /** Size of the env file content read or written */
+  bytes?: number;
+  /** Short human-readable summary, as shown in the summary table */
+  detail?: string;
+  /** Problems that did not fail the operation, such as cleanup failing after an upload */
+  warnings?: string[];
+  error?: Error;
+}
+
+export interface UploadOptions {
+  /**
+   * Upload even when the local file is identical to the latest version, or when latest
+   * changed since the local file was last downloaded or uploaded
+   * @default false
+   */
+  force?: boolean;
+
+  /**
+   * Why the upload is made, recorded with the new version's provenance
+   */
+  message?: string;
+}
+
+export interface PromoteOptions {
+  /**
+   * Why the promotion is made, recorded with the new version's provenance
+   * @default "Promoted from {environment} version {n}"
+   */
+  message?: string;
+
+  /**
+   * Show unmasked values in the diff
+   * @default false
+   */
+  showValues?: boolean;
+
+  /**
+   * Called after the diff is shown; the service is skipped unless it resolves to true.
+   * Without it, promotion proceeds without asking.
+   */
+  confirm?: (question: string) => Promise<boolean>;
+}
+
+/**
+ * Who uploaded a secret version, from where and why
+ */
+export interface VersionProvenance {
+  /** Identity from the credentials used (service account email), or the local user */
+  uploadedBy?: string;
+  /** Git commit SHA of the working tree the upload ran in */
+  commit?: string;
+  /** Git branch of the working tree the upload ran in */
+  branch?: string;
+  hostname?: string;
+  /** Version of gcp-monorepo-secret-manager that made the upload */
+  toolVersion?: string;
+  /** Message given with --message */
+  message?: string;
+}
+
+export interface SecretReadOptions {
+  /**
+   * Secret version number to read instead of the latest version
+   * @default "latest"
+   */
+  version?: string;
+
+  /**
+   * Read the version pinned in .secrets-lock, failing when none is pinned
+   * @default false
+   */
+  frozen?: boolean;
+}
+
+/**
+ * How download resolves keys changed both locally and remotely since the last sync:
+ * keep the local value, take the remote one, or ask (or write conflict markers)
+ */
+export type MergeStrategy = "ours" | "theirs" | "merge";
+
+/**
+ * A key changed differently in the local env file and in Secret Manager. Undefined values
+ * mean the key is absent on that side.
+ */
+export interface EnvConflict {
+  key: string;
+  /** Value at the last sync, unset when the base is unknown */
+  base?: string;
+  local?: string;
+  remote?: string;
+}
+
+export interface DownloadOptions extends SecretReadOptions {
+  /**
+   * How keys changed on both sides are resolved when the local env file was edited since the last sync.
+   * When the last synced version is unknown, a changed local file is left as is and the download fails unless a strategy is given.
+   * @default "merge"
+   */
+  strategy?: MergeStrategy;
+
+  /**
+   * Called for each conflict with the "merge" strategy, one service at a time. Without it,
+   * conflicts are written to the env file with conflict markers.
+   */
+  resolveConflict?: (conflict: EnvConflict, serviceName: string) => Promise<"ours" | "theirs">;
+
+  /**
+   * Also write each downloaded service's target files, as setEnv does. A service whose
+   * download failed is not set, and does not stop the others from being set.
+   * @default false
+   */
+  set?: boolean;
+}
+
+export interface SecretVersionHistoryEntry {
+  /** Version number, e.g. "12" */
+  version: string;
+  createTime?: Date;
+  /** ENABLED, DISABLED or DESTROYED */
+  state: string;
+  /**
+   * Number of keys added, removed or changed compared with the previous readable version
+   * (every key for the first one). Undefined when this version cannot be read.
+   */
+  keysChanged?: number;
+  /** Recorded provenance, if the version was uploaded with provenance tracking */
+  provenance?: VersionProvenance;
 }
 
 /**
@@ -72,4 +547,27 @@ export interface ConfigOptions {
   secretName?: string;
   /** Required environment variables that must be present */
   requiredEnvVars?: string[];
+  /** Optional secret storage backend (defaults to Google Cloud Secret Manager) */
+  backend?: BackendConfig;
+  /** Key used to decrypt encrypted payloads. Plaintext payloads are read as-is. */
+  encryption?: EncryptionConfig;
+  /** Secret version number to read instead of latest */
+  version?: string;
+  /** Read the version pinned in the lock file for this service and environment */
+  frozen?: boolean;
+  /** Environment name the lock file is keyed by (required with frozen) */
+  environment?: string;
+  /** Path to the lock file (defaults to ".secrets-lock" in the working directory) */
+  lockPath?: string;
+  /** Secret of the shared layer merged under the service's own values, e.g. "SHARED_ENV_FILE" */
+  sharedSecretName?: string;
+  /** Keys of the shared layer this service does not inherit */
+  excludeShared?: string[];
+  /**
+   * Secrets read for ${ref:service.KEY} references, keyed by service
+   * (defaults to "{SERVICE}_ENV_FILE", and sharedSecretName for "shared")
+   */
+  referenceSecretNames?: Record<string, string>;
+  /** Rules the loaded variables must satisfy; per-environment rules need environment */
+  schema?: EnvSchema;
 } 
\ No newline at end of file